@@ -4,12 +4,16 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Dashboard from "@/pages/dashboard";
+import FlockHistory from "@/pages/flock-history";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/farms/:farmId" component={Dashboard} />
+      <Route path="/farms/:farmId/flocks/:flockId/history" component={FlockHistory} />
+      <Route path="/farms/:farmId/flocks/:flockId" component={Dashboard} />
       <Route component={NotFound} />
     </Switch>
   );
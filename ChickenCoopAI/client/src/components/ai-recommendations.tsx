@@ -1,34 +1,60 @@
-import { Brain, Bot } from "lucide-react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Brain, Bot, Siren, X } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { Equipment, Flock } from "@shared/schema";
+import type { Equipment, FlockAlert, FlockWithAge } from "@shared/schema";
+import { ANOMALY_LABELS } from "@shared/anomalies";
+import type { EnvironmentalCalculation } from "@shared/environment";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface AIRecommendationsProps {
   farmId: string;
-  flock?: Flock;
+  flock?: FlockWithAge;
   equipment: Equipment[];
 }
 
 export default function AIRecommendations({ farmId, flock, equipment }: AIRecommendationsProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { data: calculations } = useQuery({
-    queryKey: ['/api/calculate-environment', farmId],
+  const { data: calculations } = useQuery<EnvironmentalCalculation>({
+    queryKey: ['/api/calculate-environment', farmId, flock?.id],
     queryFn: async () => {
       const response = await apiRequest('POST', '/api/calculate-environment', {
         farmId,
-        outsideTemp: 22,
-        outsideHumidity: 45,
-        windSpeed: 12,
-        flockAge: flock?.currentAge || 18,
+        flockId: flock?.id,
       });
       return response.json();
     },
   });
 
+  // Early warnings from the flock's water, feed, mortality and temperature series
+  const { data: alerts = [] } = useQuery<FlockAlert[]>({
+    queryKey: ['/api/flocks', flock?.id, 'alerts'],
+    queryFn: async () => {
+      const response = await apiRequest('POST', `/api/flocks/${flock?.id}/alerts/evaluate`);
+      return response.json();
+    },
+    enabled: !!flock?.id,
+  });
+
+  const dismissAlertMutation = useMutation({
+    mutationFn: async (alertId: string) => {
+      const response = await apiRequest('PATCH', `/api/alerts/${alertId}/dismiss`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'alerts'] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to Dismiss Alert",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const recommendations = calculations?.recommendations || [];
 
   const getAlertVariant = (type: string) => {
@@ -143,7 +169,46 @@ export default function AIRecommendations({ farmId, flock, equipment }: AIRecomm
       </div>
       <div className="p-6">
         <div className="space-y-4">
-          {recommendations.length === 0 ? (
+          {alerts.map((alert) => (
+            <Alert
+              key={alert.id}
+              className={`border-l-4 ${alert.severity === 'critical'
+                ? 'border-l-red-500 bg-red-50 dark:bg-red-900/20'
+                : 'border-l-orange-400 bg-orange-50 dark:bg-orange-900/20'}`}
+              data-testid={`alert-anomaly-${alert.id}`}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <Siren className={`h-4 w-4 ${alert.severity === 'critical' ? 'text-red-600' : 'text-orange-600'}`} />
+                  <h4 className="text-sm font-medium ml-2">
+                    {alert.severity === 'critical' ? 'Critical: ' : ''}
+                    {alert.signals.map(signal => ANOMALY_LABELS[signal.kind]).join(' + ')}
+                  </h4>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => dismissAlertMutation.mutate(alert.id)}
+                  disabled={dismissAlertMutation.isPending}
+                  data-testid={`button-dismiss-alert-${alert.id}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <AlertDescription className="mt-1">
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {alert.signals.map((signal) => (
+                    <li key={signal.kind}>{signal.message}</li>
+                  ))}
+                </ul>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(`${alert.date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </span>
+              </AlertDescription>
+            </Alert>
+          ))}
+
+          {recommendations.length === 0 && alerts.length === 0 ? (
             <div className="text-center text-gray-500 dark:text-gray-400 py-4">
               <Brain className="h-12 w-12 mx-auto mb-2 opacity-50" />
               <p data-testid="text-no-recommendations">No recommendations available</p>
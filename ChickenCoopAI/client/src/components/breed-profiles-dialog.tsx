@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Farm, FlockWithAge } from "@shared/schema";
+import {
+  parseBreedCurveCsv,
+  parseBreedCurveJson,
+  type BreedCurvePointInput,
+  type BreedProfile,
+  type LayingCurvePoint,
+  type BreedType,
+} from "@shared/breeds";
+
+interface BreedProfilesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  farm: Farm;
+  flock?: FlockWithAge;
+}
+
+// JSON is detected by its leading bracket; anything else is read as CSV.
+// Only JSON can carry a laying curve alongside the growth curve.
+function parseCurve(text: string): { curve: BreedCurvePointInput[]; layingCurve?: LayingCurvePoint[] } {
+  const trimmed = text.trim();
+  return trimmed.startsWith("[") || trimmed.startsWith("{")
+    ? parseBreedCurveJson(trimmed)
+    : { curve: parseBreedCurveCsv(trimmed) };
+}
+
+export default function BreedProfilesDialog({
+  open,
+  onOpenChange,
+  farm,
+  flock,
+}: BreedProfilesDialogProps) {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<BreedType>("broiler");
+  const [curveText, setCurveText] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [] } = useQuery<BreedProfile[]>({
+    queryKey: ['/api/farms', farm.id, 'breed-profiles'],
+    enabled: open,
+  });
+
+  const assignBreedMutation = useMutation({
+    mutationFn: async (breedId: string) => {
+      const response = await apiRequest('PATCH', `/api/flocks/${flock?.id}`, { breedId });
+      return response.json() as Promise<FlockWithAge>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', farm.id, 'flocks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', updated.id, 'breed-profile'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/calculate-environment'] });
+      toast({
+        title: "Breed Updated",
+        description: `${updated.name} now uses the ${profiles.find(p => p.id === updated.breedId)?.name} profile.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Update Failed",
+        description: "Failed to change the flock's breed. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const { curve, layingCurve } = parseCurve(curveText);
+      const response = await apiRequest('POST', `/api/farms/${farm.id}/breed-profiles`, {
+        name,
+        type,
+        curve,
+        layingCurve,
+      });
+      return response.json() as Promise<BreedProfile>;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', farm.id, 'breed-profiles'] });
+      toast({
+        title: "Profile Imported",
+        description: `${profile.name} with ${profile.curve.length} curve rows is now available.`,
+      });
+      setName("");
+      setCurveText("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Check the file format and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCurveText(await file.text());
+    if (!name) setName(file.name.replace(/\.(csv|json)$/i, ""));
+  };
+
+  const handleImport = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name && curveText.trim()) {
+      importMutation.mutate();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-breed-profiles">
+        <DialogHeader>
+          <DialogTitle>Breed Profiles</DialogTitle>
+          <DialogDescription>
+            Target weight, intake, FCR and temperature curves used for projections and recommendations
+          </DialogDescription>
+        </DialogHeader>
+
+        {flock && (
+          <div className="space-y-2">
+            <Label>Profile for {flock.name}</Label>
+            <Select
+              value={flock.breedId}
+              onValueChange={(breedId) => assignBreedMutation.mutate(breedId)}
+              disabled={flock.status === 'closed' || assignBreedMutation.isPending}
+            >
+              <SelectTrigger data-testid="select-flock-breed">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.filter((profile) => profile.type === flock.type).map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name} {profile.builtIn ? '' : '(custom)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Separator />
+
+        <form onSubmit={handleImport} className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Import Custom Profile</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="breedName">Name</Label>
+              <Input
+                id="breedName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-breed-name"
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as BreedType)}>
+                <SelectTrigger data-testid="select-breed-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="broiler">Broiler</SelectItem>
+                  <SelectItem value="layer">Layer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="breedFile">Curve File (CSV or JSON)</Label>
+            <Input
+              id="breedFile"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFile}
+              data-testid="input-breed-file"
+            />
+          </div>
+          <div>
+            <Label htmlFor="breedCurve">Curve Data</Label>
+            <Textarea
+              id="breedCurve"
+              rows={6}
+              className="font-mono text-xs"
+              placeholder={"day,weight,feedIntake,fcr,tempMin,tempMax\n0,42,12,0,32,34\n7,190,37,0.86,29,31"}
+              value={curveText}
+              onChange={(e) => setCurveText(e.target.value)}
+              data-testid="input-breed-curve"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Optional columns: dailyGain, waterIntake, humidity. For layers, a JSON file may
+              add a "layingCurve" of week, henDay and eggWeight rows.
+            </p>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              data-testid="button-close-breed-profiles"
+            >
+              Close
+            </Button>
+            <Button
+              type="submit"
+              disabled={importMutation.isPending || !name || !curveText.trim()}
+              data-testid="button-import-breed"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {importMutation.isPending ? 'Importing...' : 'Import Profile'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
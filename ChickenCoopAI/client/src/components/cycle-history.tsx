@@ -0,0 +1,86 @@
+import { History } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { FlockWithAge } from "@shared/schema";
+import type { CloseOutResults } from "@shared/production";
+import type { PhaseUsage } from "@shared/feed-program";
+
+interface CycleHistoryProps {
+  farmId: string;
+}
+
+export default function CycleHistory({ farmId }: CycleHistoryProps) {
+  const { data: cycles = [] } = useQuery<{ flock: FlockWithAge; results: CloseOutResults; feedByPhase: PhaseUsage[] }[]>({
+    queryKey: ['/api/farms', farmId, 'cycles'],
+  });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+          <History className="text-farm-blue mr-2" />
+          Cycle History
+        </h2>
+      </div>
+      <div className="p-6">
+        {cycles.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center" data-testid="text-no-cycles">
+            No closed cycles yet
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Flock</TableHead>
+                <TableHead>Harvest</TableHead>
+                <TableHead className="text-right">Age</TableHead>
+                <TableHead className="text-right">Livability</TableHead>
+                <TableHead className="text-right">Dead</TableHead>
+                <TableHead className="text-right">Culled</TableHead>
+                <TableHead className="text-right">Avg Wt</TableHead>
+                <TableHead className="text-right">FCR</TableHead>
+                <TableHead className="text-right">ADG</TableHead>
+                <TableHead className="text-right">EPEF</TableHead>
+                <TableHead>Feed by Phase (kg/bird)</TableHead>
+                <TableHead className="text-right">Feed Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cycles.map(({ flock, results, feedByPhase }) => (
+                <TableRow key={flock.id} data-testid={`row-cycle-${flock.id}`}>
+                  <TableCell className="font-medium">{flock.name}</TableCell>
+                  <TableCell>{new Date(flock.harvestDate!).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right">{flock.currentAge}d</TableCell>
+                  <TableCell className="text-right">{results.livability}%</TableCell>
+                  <TableCell className="text-right">{results.mortalityRate}%</TableCell>
+                  <TableCell className="text-right" data-testid={`text-cull-rate-${flock.id}`}>{results.cullRate}%</TableCell>
+                  <TableCell className="text-right">{results.averageWeight} kg</TableCell>
+                  <TableCell className="text-right">{results.fcr}</TableCell>
+                  <TableCell className="text-right">{results.averageDailyGain} g</TableCell>
+                  <TableCell className="text-right font-semibold" data-testid={`text-epef-${flock.id}`}>
+                    {results.epef}
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-600 dark:text-gray-400" data-testid={`text-feed-phases-${flock.id}`}>
+                    {feedByPhase.filter(u => u.kg > 0).map(u => `${u.diet} ${u.kgPerBird}`).join(' · ')}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {feedByPhase.some(u => u.cost !== null)
+                      ? feedByPhase.reduce((sum, u) => sum + (u.cost ?? 0), 0).toLocaleString()
+                      : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
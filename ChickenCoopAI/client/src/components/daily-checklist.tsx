@@ -1,10 +1,12 @@
-import { ClipboardCheck, Check } from "lucide-react";
+import { ClipboardCheck, Check, Syringe } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 import { DEFAULT_CHECKLIST_TASKS } from "@/lib/constants";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { HealthTreatmentWithStatus } from "@shared/schema";
+import { TREATMENT_ROUTE_LABELS } from "@shared/health";
 
 interface DailyChecklistProps {
   farmId: string;
@@ -18,6 +20,28 @@ export default function DailyChecklist({ farmId }: DailyChecklistProps) {
     queryKey: ['/api/farms', farmId, 'checklist', 'today'],
   });
 
+  const { data: dueTreatments = [] } = useQuery<(HealthTreatmentWithStatus & { flockName: string })[]>({
+    queryKey: ['/api/farms', farmId, 'treatments', 'due'],
+  });
+
+  const administerMutation = useMutation({
+    mutationFn: async (treatment: HealthTreatmentWithStatus) => {
+      const response = await apiRequest('POST', `/api/treatments/${treatment.id}/administer`, {});
+      return response.json();
+    },
+    onSuccess: (_, treatment) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', farmId, 'treatments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', treatment.flockId, 'treatments'] });
+    },
+    onError: () => {
+      toast({
+        title: "Update Failed",
+        description: "Failed to record the treatment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateChecklistMutation = useMutation({
     mutationFn: async (tasks: { id: string; task: string; completed: boolean }[]) => {
       const response = await apiRequest('POST', `/api/farms/${farmId}/checklist`, { tasks });
@@ -79,6 +103,36 @@ export default function DailyChecklist({ farmId }: DailyChecklistProps) {
             </div>
           ))}
         </div>
+
+        {dueTreatments.length > 0 && (
+          <div className="mt-4 space-y-3">
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 flex items-center">
+              <Syringe className="text-farm-blue mr-2 h-4 w-4" />
+              Health Tasks
+            </h3>
+            {dueTreatments.map((treatment) => (
+              <div key={treatment.id} className="flex items-center space-x-3">
+                <Checkbox
+                  id={`treatment-${treatment.id}`}
+                  checked={false}
+                  onCheckedChange={(checked) => checked && administerMutation.mutate(treatment)}
+                  disabled={administerMutation.isPending}
+                  data-testid={`checkbox-treatment-${treatment.id}`}
+                />
+                <label
+                  htmlFor={`treatment-${treatment.id}`}
+                  className={`text-sm cursor-pointer ${
+                    treatment.status === 'overdue' ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                  data-testid={`label-treatment-${treatment.id}`}
+                >
+                  {treatment.product} ({TREATMENT_ROUTE_LABELS[treatment.route]}, {treatment.dose}) · {treatment.flockName}
+                  {treatment.status === 'overdue' && ` · overdue since day ${treatment.plannedAge}`}
+                </label>
+              </div>
+            ))}
+          </div>
+        )}
         
         <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
           <div className="flex items-center mb-2">
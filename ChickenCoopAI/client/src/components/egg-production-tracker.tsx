@@ -0,0 +1,215 @@
+import { Egg, Plus } from "lucide-react";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { FlockWithAge } from "@shared/schema";
+import type { LayingPerformance } from "@shared/laying";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface EggProductionTrackerProps {
+  flock?: FlockWithAge;
+}
+
+const emptyCollection = {
+  totalEggs: 0,
+  crackedEggs: 0,
+  dirtyEggs: 0,
+  floorEggs: 0,
+  eggWeight: 0,
+};
+
+export default function EggProductionTracker({ flock }: EggProductionTrackerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [collection, setCollection] = useState(emptyCollection);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: performance } = useQuery<LayingPerformance>({
+    queryKey: ['/api/flocks', flock?.id, 'laying-performance'],
+    enabled: !!flock?.id,
+  });
+
+  const addCollectionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/egg-production-records', {
+        flockId: flock?.id,
+        ...collection,
+        eggWeight: collection.eggWeight || null,
+        date: new Date().toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'egg-production'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'laying-performance'] });
+      toast({
+        title: "Collection Recorded",
+        description: `${collection.totalEggs.toLocaleString()} eggs recorded for today.`,
+      });
+      setIsOpen(false);
+      setCollection(emptyCollection);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Record Collection",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (collection.totalEggs > 0) {
+      addCollectionMutation.mutate();
+    }
+  };
+
+  const setField = (field: keyof typeof emptyCollection, value: number) =>
+    setCollection((current) => ({ ...current, [field]: value }));
+
+  if (!flock || flock.type !== 'layer') {
+    return null;
+  }
+
+  const henDayColor = performance?.henDay == null || !performance.target
+    ? 'text-gray-900 dark:text-gray-100'
+    : performance.henDay >= performance.target.henDay - 2 ? 'text-green-600' : 'text-yellow-600';
+
+  const rows = [
+    { label: 'Hen-housed (latest)', value: performance?.henHoused != null ? `${performance.henHoused}%` : '—', testId: 'hen-housed' },
+    { label: '7-day hen-day', value: performance?.weekHenDay != null ? `${performance.weekHenDay}%` : '—', testId: 'week-hen-day' },
+    { label: 'Second grade', value: performance?.secondGrade != null ? `${performance.secondGrade}%` : '—', testId: 'second-grade' },
+    { label: 'Egg weight', value: performance?.eggWeight != null ? `${performance.eggWeight} g` : '—', testId: 'egg-weight' },
+    { label: 'Feed per dozen', value: performance?.feedPerDozen != null ? `${performance.feedPerDozen} kg` : '—', testId: 'feed-per-dozen' },
+    { label: 'Eggs per hen housed', value: performance?.eggsPerHenHoused ?? 0, testId: 'eggs-per-hen' },
+  ];
+
+  const numberFields = [
+    { field: 'totalEggs', label: 'Total Eggs' },
+    { field: 'crackedEggs', label: 'Cracked' },
+    { field: 'dirtyEggs', label: 'Dirty' },
+    { field: 'floorEggs', label: 'Floor Eggs' },
+  ] as const;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+          <Egg className="text-farm-orange mr-2" />
+          Egg Production
+        </h2>
+      </div>
+      <div className="p-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <p className={`text-2xl font-bold ${henDayColor}`} data-testid="text-hen-day">
+                {performance?.henDay != null ? `${performance.henDay}%` : '—'}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Hen-day (latest)</p>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <p className="text-2xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-hen-day-target">
+                {performance?.target ? `${performance.target.henDay}%` : '—'}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Breed target (week {performance?.ageWeeks ?? Math.floor(flock.currentAge / 7)})
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2 text-sm">
+            {rows.map((row) => (
+              <div key={row.testId} className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">{row.label}</span>
+                <span className="font-medium text-gray-900 dark:text-gray-100" data-testid={`text-laying-${row.testId}`}>
+                  {row.value}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={flock.status === 'closed'}
+                data-testid="button-add-egg-collection"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Record Collection
+              </Button>
+            </DialogTrigger>
+            <DialogContent data-testid="dialog-egg-collection">
+              <DialogHeader>
+                <DialogTitle>Record Egg Collection</DialogTitle>
+                <DialogDescription>
+                  Cracked, dirty and floor eggs are counted within the total
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {numberFields.map(({ field, label }) => (
+                    <div key={field}>
+                      <Label htmlFor={field}>{label}</Label>
+                      <Input
+                        id={field}
+                        type="number"
+                        min="0"
+                        value={collection[field] || ""}
+                        onChange={(e) => setField(field, parseInt(e.target.value) || 0)}
+                        data-testid={`input-${field}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <Label htmlFor="eggWeight">Average Egg Weight (g)</Label>
+                  <Input
+                    id="eggWeight"
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={collection.eggWeight || ""}
+                    onChange={(e) => setField('eggWeight', parseFloat(e.target.value) || 0)}
+                    data-testid="input-eggWeight"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsOpen(false)}
+                    data-testid="button-cancel-egg-collection"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={addCollectionMutation.isPending || collection.totalEggs <= 0}
+                    data-testid="button-save-egg-collection"
+                  >
+                    {addCollectionMutation.isPending ? 'Recording...' : 'Record'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { Thermometer } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Farm, Equipment, EnvironmentalReading, Flock } from "@shared/schema";
+import type { Farm, Equipment, EnvironmentalReading, FlockWithAge } from "@shared/schema";
+import { getBreedTargets, getDefaultBreed, type BreedProfile } from "@shared/breeds";
+import { AIR_QUALITY_LIMITS, type EnvironmentalCalculation } from "@shared/environment";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 // import EquipmentControl from "./equipment-control"; // TODO: create if needed
@@ -9,7 +11,7 @@ interface EnvironmentalControlsProps {
   farm: Farm;
   equipment: Equipment[];
   environmentalData?: EnvironmentalReading;
-  flock?: Flock;
+  flock?: FlockWithAge;
 }
 
 export default function EnvironmentalControls({ 
@@ -22,21 +24,23 @@ export default function EnvironmentalControls({
   const queryClient = useQueryClient();
 
   // Fetch AI calculations
-  const { data: calculations } = useQuery({
-    queryKey: ['/api/calculate-environment', farm.id, environmentalData?.outsideTemp],
+  const { data: calculations } = useQuery<EnvironmentalCalculation>({
+    queryKey: ['/api/calculate-environment', farm.id, flock?.id, environmentalData?.outsideTemp],
     enabled: !!environmentalData,
     queryFn: async () => {
       const response = await apiRequest('POST', '/api/calculate-environment', {
         farmId: farm.id,
-        outsideTemp: environmentalData?.outsideTemp || 22,
-        outsideHumidity: environmentalData?.outsideHumidity || 45,
-        windSpeed: environmentalData?.windSpeed || 12,
-        flockAge: flock?.currentAge || 18,
+        flockId: flock?.id,
       });
       return response.json();
     },
   });
 
+  const { data: breed } = useQuery<BreedProfile>({
+    queryKey: ['/api/flocks', flock?.id, 'breed-profile'],
+    enabled: !!flock?.id,
+  });
+
   const updateEquipmentMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: { isActive?: boolean; currentSetting?: number }}) => {
       const response = await apiRequest('PATCH', `/api/equipment/${id}`, data);
@@ -66,9 +70,10 @@ export default function EnvironmentalControls({
     .reduce((sum, fan) => sum + (fan.currentSetting || 0), 0) / 
     equipment.filter(eq => eq.type === 'fan').length || 0;
 
-  // Age-based targets
-  const targetTempMin = flock?.currentAge ? (flock.currentAge < 7 ? 32 : flock.currentAge < 14 ? 30 : flock.currentAge < 21 ? 27 : flock.currentAge < 28 ? 24 : 21) : 30;
-  const targetTempMax = targetTempMin + 3;
+  // Age-based targets from the flock's breed curve
+  const breedTargets = getBreedTargets(breed ?? getDefaultBreed(), flock?.currentAge ?? 0);
+  const targetTempMin = breedTargets.tempMin;
+  const targetTempMax = breedTargets.tempMax;
 
   const getTemperatureColor = (temp: number) => {
     if (temp < targetTempMin) return 'from-temp-cool to-blue-600';
@@ -82,6 +87,28 @@ export default function EnvironmentalControls({
     return Math.round(progress);
   };
 
+  // Sensor gauges sit beside temperature and humidity; a house without a
+  // sensor shows a dash
+  const airQualityGauges = [
+    { key: 'co2', label: 'CO₂', unit: 'ppm', value: environmentalData?.co2 ?? null, limit: AIR_QUALITY_LIMITS.co2 },
+    { key: 'ammonia', label: 'Ammonia (NH₃)', unit: 'ppm', value: environmentalData?.ammonia ?? null, limit: AIR_QUALITY_LIMITS.ammonia },
+    {
+      key: 'dust',
+      label: 'Dust (PM10)',
+      unit: 'µg/m³',
+      value: environmentalData?.pm10 ?? null,
+      limit: AIR_QUALITY_LIMITS.pm10,
+      detail: typeof environmentalData?.pm25 === 'number' ? `PM2.5: ${environmentalData.pm25} µg/m³` : undefined,
+    },
+  ];
+
+  const getAirQualityColor = (value: number | null, limit: number) => {
+    if (value === null) return 'from-gray-300 to-gray-500';
+    if (value > limit) return 'from-red-500 to-red-700';
+    if (value > limit * 0.75) return 'from-yellow-400 to-yellow-600';
+    return 'from-green-400 to-farm-green';
+  };
+
   const fans = equipment.filter(eq => eq.type === 'fan');
   const heaters = equipment.filter(eq => eq.type === 'heater');
   const inlets = equipment.filter(eq => eq.type === 'inlet');
@@ -114,6 +141,16 @@ export default function EnvironmentalControls({
               <p className="text-xs text-gray-500 dark:text-gray-400" data-testid="text-temp-target">
                 Target: {targetTempMin}-{targetTempMax}°C
               </p>
+              {calculations && (
+                <p
+                  className={`text-xs ${calculations.comfort.thi > calculations.comfort.thiLimit ? 'text-red-600 font-medium' : 'text-gray-500 dark:text-gray-400'}`}
+                  data-testid="text-effective-temp"
+                >
+                  Feels like {calculations.comfort.effectiveTemp}°C
+                  {calculations.comfort.airVelocity > 0 && ` at ${calculations.comfort.airVelocity} m/s`}
+                  {' · '}THI {calculations.comfort.thi} (limit {calculations.comfort.thiLimit})
+                </p>
+              )}
               <div className="mt-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                 <div 
                   className="bg-temp-warm h-2 rounded-full transition-all duration-500" 
@@ -170,7 +207,99 @@ export default function EnvironmentalControls({
                 ></div>
               </div>
             </div>
+
+            {/* Air Quality */}
+            {airQualityGauges.map((gauge) => (
+              <div key={gauge.key} className="text-center">
+                <div className="relative w-24 h-24 mx-auto mb-3">
+                  <div className={`w-24 h-24 rounded-full bg-gradient-to-br ${getAirQualityColor(gauge.value, gauge.limit)} flex items-center justify-center`}>
+                    <div className="text-white">
+                      <div className="text-2xl font-bold" data-testid={`text-current-${gauge.key}`}>
+                        {gauge.value !== null ? Math.round(gauge.value).toLocaleString() : '—'}
+                      </div>
+                      <div className="text-xs">{gauge.unit}</div>
+                    </div>
+                  </div>
+                </div>
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{gauge.label}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Limit: {gauge.limit.toLocaleString()} {gauge.unit}
+                </p>
+                {gauge.detail && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{gauge.detail}</p>
+                )}
+                <div className="mt-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                  <div 
+                    className={`h-2 rounded-full transition-all duration-500 ${gauge.value !== null && gauge.value > gauge.limit ? 'bg-red-600' : 'bg-farm-green'}`}
+                    style={{ width: `${gauge.value !== null ? Math.min(100, (gauge.value / gauge.limit) * 100) : 0}%` }}
+                    data-testid={`progress-${gauge.key}`}
+                  ></div>
+                </div>
+              </div>
+            ))}
           </div>
+
+          {/* Heat Balance: gains from birds and heaters equal the losses */}
+          {calculations && (
+            <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700" data-testid="heat-balance">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">Heat Balance</h3>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+                {[
+                  { label: 'Birds', value: calculations.heatBalance.birdHeat, gain: true },
+                  { label: 'Heaters', value: calculations.heatBalance.heaterOutput, gain: true },
+                  { label: 'Ventilation', value: calculations.heatBalance.ventilationLoss, gain: false },
+                  { label: 'Walls', value: calculations.heatBalance.wallLoss, gain: false },
+                  { label: 'Roof', value: calculations.heatBalance.roofLoss, gain: false },
+                ].map((term) => (
+                  <div key={term.label} className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                    <p className={`text-sm font-bold ${term.gain ? 'text-red-600' : 'text-blue-600'}`}>
+                      {term.gain ? '+' : '−'}{term.value} kW
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">{term.label}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2" data-testid="text-airflow">
+                Air exchange {calculations.heatBalance.airflow.toLocaleString()} m³/h
+                ({calculations.heatBalance.airChangesPerHour} changes per hour),
+                removing {calculations.heatBalance.moisture} kg/h of moisture from the birds
+              </p>
+            </div>
+          )}
+
+          {/* Minimum ventilation timer for the flock's biomass */}
+          {calculations?.minimumVentilation && (
+            <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700" data-testid="minimum-ventilation">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Minimum Ventilation</h3>
+                {calculations.minimumVentilation.inletOpening !== null && inlets.length > 0 && (
+                  <button
+                    onClick={() => inlets.forEach((inlet) => updateEquipmentMutation.mutate({
+                      id: inlet.id,
+                      data: { currentSetting: calculations.minimumVentilation!.inletOpening! },
+                    }))}
+                    className="px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                    data-testid="button-apply-inlet-opening"
+                  >
+                    Set inlets to {calculations.minimumVentilation.inletOpening}%
+                  </button>
+                )}
+              </div>
+              <p className="text-sm text-gray-700 dark:text-gray-300" data-testid="text-minimum-ventilation">
+                {calculations.minimumVentilation.onSeconds !== null
+                  ? `Run ${calculations.minimumVentilation.fans} fan${calculations.minimumVentilation.fans === 1 ? '' : 's'} ${calculations.minimumVentilation.onSeconds}s on / ${calculations.minimumVentilation.offSeconds}s off in a 5-minute cycle`
+                  : 'Add fans to get a timer setting'}
+                {calculations.minimumVentilation.inletOpening !== null && `, inlets ${calculations.minimumVentilation.inletOpening}% open`}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {calculations.minimumVentilation.requiredAirflow.toLocaleString()} m³/h for {calculations.minimumVentilation.biomass.toLocaleString()} kg of birds
+                (CO₂ {calculations.minimumVentilation.co2Airflow.toLocaleString()} m³/h,
+                moisture {calculations.minimumVentilation.moistureAirflow !== null
+                  ? `${calculations.minimumVentilation.moistureAirflow.toLocaleString()} m³/h`
+                  : 'not removable with outside air this damp'})
+              </p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -23,12 +23,17 @@ import { Button } from "@/components/ui/button";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { Farm } from "@shared/schema";
+import { formatDayStart, isValidTimeZone, parseDayStart } from "@shared/time";
 
 const farmUpdateSchema = z.object({
   name: z.string().min(1, "Farm name is required"),
   length: z.number().min(1, "Length must be greater than 0"),
   width: z.number().min(1, "Width must be greater than 0"),
   height: z.number().min(1, "Height must be greater than 0"),
+  timezone: z.string().refine(isValidTimeZone, "Enter an IANA timezone, e.g. Africa/Algiers"),
+  dayStart: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Enter a time, e.g. 06:00"),
+  wallUValue: z.number().positive("U-value must be greater than 0"),
+  roofUValue: z.number().positive("U-value must be greater than 0"),
 });
 
 type FarmUpdateData = z.infer<typeof farmUpdateSchema>;
@@ -54,17 +59,28 @@ export default function FarmDetailsDialog({
       length: farm.length,
       width: farm.width,
       height: farm.height,
+      timezone: farm.timezone,
+      dayStart: formatDayStart(farm.dayStart),
+      wallUValue: farm.wallUValue,
+      roofUValue: farm.roofUValue,
     },
   });
 
   const updateFarmMutation = useMutation({
     mutationFn: async (data: FarmUpdateData) => {
-      const response = await apiRequest('PATCH', `/api/farms/${farm.id}`, data);
+      const response = await apiRequest('PATCH', `/api/farms/${farm.id}`, {
+        ...data,
+        dayStart: parseDayStart(data.dayStart),
+      });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/farms'] });
       queryClient.invalidateQueries({ queryKey: ['/api/farms', farm.id] });
+      // Flock ages and "today" totals follow the farm's timezone and day start
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks'] });
+      // Predicted inside conditions depend on the dimensions and insulation
+      queryClient.invalidateQueries({ queryKey: ['/api/calculate-environment'] });
       toast({
         title: "Farm Updated",
         description: "Farm details have been updated successfully.",
@@ -176,6 +192,92 @@ export default function FarmDetailsDialog({
               />
             </div>
 
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Timezone</FormLabel>
+                    <FormControl>
+                      <Input 
+                        placeholder="Africa/Algiers" 
+                        {...field} 
+                        data-testid="input-farm-timezone"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dayStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Day Starts</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="time"
+                        {...field} 
+                        data-testid="input-farm-day-start"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Daily totals, the checklist and flock age roll over at this time in the farm's timezone
+            </p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="wallUValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Wall U-value (W/m²·K)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        step="0.05"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        data-testid="input-farm-wall-u-value"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="roofUValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Roof U-value (W/m²·K)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        step="0.05"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        data-testid="input-farm-roof-u-value"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Heat lost through the walls and roof per m² for each °C between inside and outside; lower is better insulated
+            </p>
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button 
                 type="button" 
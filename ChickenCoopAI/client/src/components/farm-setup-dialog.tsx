@@ -44,7 +44,15 @@ const setupSchema = z.object({
 
 type SetupFormData = z.infer<typeof setupSchema>;
 
-export default function FarmSetupDialog() {
+interface FarmSetupDialogProps {
+  // Omit open/onOpenChange for the first-run setup, which cannot be dismissed
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  onComplete?: (farmId: string, flockId: string) => void;
+}
+
+export default function FarmSetupDialog({ open, onOpenChange, onComplete }: FarmSetupDialogProps = {}) {
+  const isFirstRun = onOpenChange === undefined;
   const [step, setStep] = useState(1);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -71,6 +79,7 @@ export default function FarmSetupDialog() {
         length: data.length,
         width: data.width,
         height: data.height,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       });
       const farm = await farmResponse.json();
 
@@ -79,7 +88,7 @@ export default function FarmSetupDialog() {
         farmId: farm.id,
         name: data.flockName,
         chickCount: data.chickCount,
-        currentAge: data.currentAge,
+        initialChickCount: data.chickCount,
         averageWeight: data.averageWeight,
         batchDate: new Date(Date.now() - data.currentAge * 24 * 60 * 60 * 1000).toISOString(),
       });
@@ -146,12 +155,16 @@ export default function FarmSetupDialog() {
 
       return { farm, flock: await flockResponse.json() };
     },
-    onSuccess: () => {
+    onSuccess: ({ farm, flock }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/farms'] });
       toast({
         title: "Farm Setup Complete",
         description: "Your poultry farm has been successfully configured.",
       });
+      setStep(1);
+      form.reset();
+      onOpenChange?.(false);
+      onComplete?.(farm.id, flock.id);
     },
     onError: (error) => {
       toast({
@@ -446,15 +459,17 @@ export default function FarmSetupDialog() {
   );
 
   return (
-    <Dialog open={true} onOpenChange={() => {}}>
+    <Dialog open={open ?? true} onOpenChange={onOpenChange ?? (() => {})}>
       <DialogContent className="max-w-2xl" data-testid="dialog-farm-setup">
         <DialogHeader>
           <div className="flex items-center space-x-3">
             <Feather className="h-6 w-6 text-farm-green" />
             <div>
-              <DialogTitle>Welcome to ChickMaster Pro</DialogTitle>
+              <DialogTitle>{isFirstRun ? 'Welcome to ChickMaster Pro' : 'Add Farm'}</DialogTitle>
               <DialogDescription>
-                Let's set up your poultry farm management system
+                {isFirstRun
+                  ? "Let's set up your poultry farm management system"
+                  : 'Set up another house with its first flock and equipment'}
               </DialogDescription>
             </div>
           </div>
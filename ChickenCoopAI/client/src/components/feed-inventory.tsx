@@ -0,0 +1,357 @@
+import { Warehouse, Plus, Truck, AlertTriangle } from "lucide-react";
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useFeedForecast } from "@/hooks/use-feed-forecast";
+
+interface FeedInventoryProps {
+  farmId: string;
+}
+
+const emptyDelivery = {
+  siloId: "",
+  tonnes: 0,
+  feedType: "",
+  supplier: "",
+  invoicePrice: 0,
+};
+
+export default function FeedInventory({ farmId }: FeedInventoryProps) {
+  const [siloDialogOpen, setSiloDialogOpen] = useState(false);
+  const [deliveryDialogOpen, setDeliveryDialogOpen] = useState(false);
+  const [silo, setSilo] = useState({ name: "", tonnes: 0 });
+  const [delivery, setDelivery] = useState(emptyDelivery);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { silos, stock, capacity, forecast, isLow } = useFeedForecast(farmId);
+
+  const addSiloMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/feed-silos', {
+        farmId,
+        name: silo.name,
+        capacity: silo.tonnes * 1000,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', farmId, 'feed-silos'] });
+      toast({
+        title: "Silo Added",
+        description: `${silo.name} (${silo.tonnes} t) is now tracked.`,
+      });
+      setSiloDialogOpen(false);
+      setSilo({ name: "", tonnes: 0 });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to Add Silo",
+        description: "Please check the values and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addDeliveryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/feed-deliveries', {
+        siloId: delivery.siloId,
+        amount: delivery.tonnes * 1000,
+        feedType: delivery.feedType,
+        supplier: delivery.supplier || null,
+        invoicePrice: delivery.invoicePrice || null,
+        date: new Date().toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', farmId, 'feed-silos'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/feed-silos', delivery.siloId, 'deliveries'] });
+      toast({
+        title: "Delivery Recorded",
+        description: `${delivery.tonnes} t of ${delivery.feedType} added to stock.`,
+      });
+      setDeliveryDialogOpen(false);
+      setDelivery(emptyDelivery);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Record Delivery",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddSilo = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (silo.name && silo.tonnes > 0) {
+      addSiloMutation.mutate();
+    }
+  };
+
+  const handleAddDelivery = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (delivery.siloId && delivery.tonnes > 0 && delivery.feedType) {
+      addDeliveryMutation.mutate();
+    }
+  };
+
+  const openDeliveryDialog = () => {
+    setDelivery({ ...emptyDelivery, siloId: silos[0]?.id ?? "" });
+    setDeliveryDialogOpen(true);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+          <Warehouse className="text-farm-orange mr-2" />
+          Feed Stock
+        </h2>
+      </div>
+      <div className="p-6">
+        <div className="space-y-4">
+          {silos.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center" data-testid="text-no-silos">
+              No feed silos set up
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <p className="text-2xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-feed-stock">
+                    {(stock / 1000).toFixed(1)} t
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    of {(capacity / 1000).toFixed(1)} t capacity
+                  </p>
+                </div>
+                <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <p
+                    className={`text-2xl font-bold ${isLow ? 'text-red-600' : 'text-gray-900 dark:text-gray-100'}`}
+                    data-testid="text-feed-days-remaining"
+                  >
+                    {forecast.daysRemaining !== null ? `${forecast.daysRemaining} d` : '—'}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400" data-testid="text-feed-run-out">
+                    {forecast.runOutDate
+                      ? `Runs out ${forecast.runOutDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                      : 'Days of feed left'}
+                  </p>
+                </div>
+              </div>
+
+              {isLow && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg flex items-start">
+                  <AlertTriangle className="text-red-600 mr-2 h-4 w-4 mt-0.5" />
+                  <p className="text-sm text-red-700 dark:text-red-300" data-testid="text-feed-low">
+                    Order feed now: about {forecast.dailyDemand} kg is eaten per day.
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {silos.map((s) => (
+                  <div key={s.id} data-testid={`row-silo-${s.id}`}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-700 dark:text-gray-300">{s.name}</span>
+                      <span className="text-gray-600 dark:text-gray-400" data-testid={`text-silo-stock-${s.id}`}>
+                        {Math.max(0, Math.round(s.stock)).toLocaleString()} / {s.capacity.toLocaleString()} kg
+                      </span>
+                    </div>
+                    <Progress value={Math.min(100, Math.max(0, (s.stock / s.capacity) * 100))} className="w-full h-2" />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setSiloDialogOpen(true)}
+              data-testid="button-add-silo"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Silo
+            </Button>
+            <Button
+              variant="outline"
+              onClick={openDeliveryDialog}
+              disabled={silos.length === 0}
+              data-testid="button-add-delivery"
+            >
+              <Truck className="mr-2 h-4 w-4" />
+              Delivery
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={siloDialogOpen} onOpenChange={setSiloDialogOpen}>
+        <DialogContent data-testid="dialog-silo">
+          <DialogHeader>
+            <DialogTitle>Add Feed Silo</DialogTitle>
+            <DialogDescription>
+              Feed records are drawn from the fullest silo on the farm
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAddSilo} className="space-y-4">
+            <div>
+              <Label htmlFor="siloName">Name</Label>
+              <Input
+                id="siloName"
+                placeholder="e.g. Bin 1"
+                value={silo.name}
+                onChange={(e) => setSilo({ ...silo, name: e.target.value })}
+                data-testid="input-silo-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="siloCapacity">Capacity (t)</Label>
+              <Input
+                id="siloCapacity"
+                type="number"
+                min="0"
+                step="0.1"
+                value={silo.tonnes || ""}
+                onChange={(e) => setSilo({ ...silo, tonnes: parseFloat(e.target.value) || 0 })}
+                data-testid="input-silo-capacity"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setSiloDialogOpen(false)}
+                data-testid="button-cancel-silo"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={addSiloMutation.isPending || !silo.name || silo.tonnes <= 0}
+                data-testid="button-save-silo"
+              >
+                {addSiloMutation.isPending ? 'Saving...' : 'Add Silo'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={deliveryDialogOpen} onOpenChange={setDeliveryDialogOpen}>
+        <DialogContent data-testid="dialog-delivery">
+          <DialogHeader>
+            <DialogTitle>Record Feed Delivery</DialogTitle>
+            <DialogDescription>
+              The delivered tonnage is added to the silo's stock
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAddDelivery} className="space-y-4">
+            <div>
+              <Label>Silo</Label>
+              <Select
+                value={delivery.siloId}
+                onValueChange={(siloId) => setDelivery({ ...delivery, siloId })}
+              >
+                <SelectTrigger data-testid="select-delivery-silo">
+                  <SelectValue placeholder="Select silo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {silos.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="deliveryTonnes">Amount (t)</Label>
+                <Input
+                  id="deliveryTonnes"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={delivery.tonnes || ""}
+                  onChange={(e) => setDelivery({ ...delivery, tonnes: parseFloat(e.target.value) || 0 })}
+                  data-testid="input-delivery-tonnes"
+                />
+              </div>
+              <div>
+                <Label htmlFor="deliveryFeedType">Feed Type</Label>
+                <Input
+                  id="deliveryFeedType"
+                  placeholder="e.g. Starter"
+                  value={delivery.feedType}
+                  onChange={(e) => setDelivery({ ...delivery, feedType: e.target.value })}
+                  data-testid="input-delivery-feed-type"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="deliverySupplier">Supplier</Label>
+                <Input
+                  id="deliverySupplier"
+                  value={delivery.supplier}
+                  onChange={(e) => setDelivery({ ...delivery, supplier: e.target.value })}
+                  data-testid="input-delivery-supplier"
+                />
+              </div>
+              <div>
+                <Label htmlFor="deliveryInvoice">Invoice Price</Label>
+                <Input
+                  id="deliveryInvoice"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={delivery.invoicePrice || ""}
+                  onChange={(e) => setDelivery({ ...delivery, invoicePrice: parseFloat(e.target.value) || 0 })}
+                  data-testid="input-delivery-invoice"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDeliveryDialogOpen(false)}
+                data-testid="button-cancel-delivery"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={addDeliveryMutation.isPending || !delivery.siloId || delivery.tonnes <= 0 || !delivery.feedType}
+                data-testid="button-save-delivery"
+              >
+                {addDeliveryMutation.isPending ? 'Saving...' : 'Record Delivery'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FlockFeedProgram, FlockWithAge } from "@shared/schema";
+import type { FeedPhase, PhaseUsage } from "@shared/feed-program";
+
+interface FeedProgramDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  flock: FlockWithAge;
+}
+
+// Blank inputs are kept as undefined so a phase can end on age, kg/bird or both
+const parseOptional = (value: string, parse: (v: string) => number) =>
+  value === "" ? undefined : parse(value);
+
+export default function FeedProgramDialog({ open, onOpenChange, flock }: FeedProgramDialogProps) {
+  const [phases, setPhases] = useState<FeedPhase[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feedProgram } = useQuery<FlockFeedProgram>({
+    queryKey: ['/api/flocks', flock.id, 'feed-program'],
+    enabled: open,
+  });
+
+  const { data: usage = [] } = useQuery<PhaseUsage[]>({
+    queryKey: ['/api/flocks', flock.id, 'feed-usage'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && feedProgram) {
+      setPhases(feedProgram.program);
+    }
+  }, [open, feedProgram]);
+
+  const saveProgramMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PATCH', `/api/flocks/${flock.id}`, { feedProgram: phases });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', flock.farmId, 'flocks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock.id, 'feed-program'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock.id, 'feed-usage'] });
+      toast({
+        title: "Feed Program Saved",
+        description: `${flock.name} now follows a ${phases.length}-phase program.`,
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Every phase except the last needs an end age or kg per bird.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updatePhase = (index: number, changes: Partial<FeedPhase>) =>
+    setPhases((current) => current.map((phase, i) => (i === index ? { ...phase, ...changes } : phase)));
+
+  const removePhase = (index: number) =>
+    setPhases((current) => current.filter((_, i) => i !== index));
+
+  const isClosed = flock.status === 'closed';
+  const totalCost = usage.reduce((sum, u) => sum + (u.cost ?? 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-feed-program">
+        <DialogHeader>
+          <DialogTitle>Feed Program for {flock.name}</DialogTitle>
+          <DialogDescription>
+            Each diet is fed until its end age or cumulative kg per bird, whichever comes first
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Diet</TableHead>
+              <TableHead>Until Age (d)</TableHead>
+              <TableHead>Until kg/bird</TableHead>
+              <TableHead>Price per t</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {phases.map((phase, index) => (
+              <TableRow key={index} data-testid={`row-phase-${index}`}>
+                <TableCell>
+                  <Input
+                    value={phase.diet}
+                    onChange={(e) => updatePhase(index, { diet: e.target.value })}
+                    disabled={isClosed}
+                    data-testid={`input-phase-diet-${index}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={phase.untilAge ?? ""}
+                    onChange={(e) => updatePhase(index, { untilAge: parseOptional(e.target.value, parseInt) })}
+                    disabled={isClosed}
+                    data-testid={`input-phase-age-${index}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={phase.untilKgPerBird ?? ""}
+                    onChange={(e) => updatePhase(index, { untilKgPerBird: parseOptional(e.target.value, parseFloat) })}
+                    disabled={isClosed}
+                    data-testid={`input-phase-kg-${index}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={phase.pricePerTon ?? ""}
+                    onChange={(e) => updatePhase(index, { pricePerTon: parseOptional(e.target.value, parseFloat) })}
+                    disabled={isClosed}
+                    data-testid={`input-phase-price-${index}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removePhase(index)}
+                    disabled={isClosed || phases.length === 1}
+                    data-testid={`button-remove-phase-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {!isClosed && (
+          <div className="flex justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPhases([...phases, { diet: "" }])}
+              data-testid="button-add-phase"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Phase
+            </Button>
+            <Button
+              onClick={() => saveProgramMutation.mutate()}
+              disabled={saveProgramMutation.isPending || phases.some(p => !p.diet)}
+              data-testid="button-save-feed-program"
+            >
+              {saveProgramMutation.isPending ? 'Saving...' : 'Save Program'}
+            </Button>
+          </div>
+        )}
+
+        <Separator />
+
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Usage by Phase</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Diet</TableHead>
+              <TableHead className="text-right">Feed</TableHead>
+              <TableHead className="text-right">kg/bird</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {usage.map((u) => (
+              <TableRow key={u.diet} data-testid={`row-usage-${u.diet}`}>
+                <TableCell className="font-medium">{u.diet}</TableCell>
+                <TableCell className="text-right">{u.kg.toLocaleString()} kg</TableCell>
+                <TableCell className="text-right">{u.kgPerBird}</TableCell>
+                <TableCell className="text-right">{u.cost !== null ? u.cost.toLocaleString() : '—'}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell className="font-semibold">Total</TableCell>
+              <TableCell className="text-right font-semibold">
+                {usage.reduce((sum, u) => sum + u.kg, 0).toLocaleString()} kg
+              </TableCell>
+              <TableCell className="text-right font-semibold">{feedProgram?.kgPerBird ?? 0}</TableCell>
+              <TableCell className="text-right font-semibold" data-testid="text-feed-cost-total">
+                {totalCost > 0 ? totalCost.toLocaleString() : '—'}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,21 +1,27 @@
 import { useState } from "react";
-import { Utensils, Plus, Droplets } from "lucide-react";
+import { Utensils, Plus, Droplets, ListOrdered, Gauge, TrendingDown, ClipboardList } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import type { Flock } from "@shared/schema";
+import type { FlockFeedProgram, FlockWithAge, WaterMeterReading } from "@shared/schema";
+import type { WaterIntakeAnalysis } from "@shared/water";
+import { calculateConsumptionTargets, getDefaultBreed, type BreedProfile } from "@shared/breeds";
 import { apiRequest } from "@/lib/queryClient";
-import { calculateConsumptionTargets } from "@/lib/calculations";
 import { useToast } from "@/hooks/use-toast";
 import RecordInputDialog from "./record-input-dialog";
+import FeedProgramDialog from "./feed-program-dialog";
+import RecordLogDialog from "./record-log-dialog";
 
 interface FeedWaterTrackerProps {
-  flock?: Flock;
+  flock?: FlockWithAge;
 }
 
 export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
   const [feedDialogOpen, setFeedDialogOpen] = useState(false);
   const [waterDialogOpen, setWaterDialogOpen] = useState(false);
+  const [programDialogOpen, setProgramDialogOpen] = useState(false);
+  const [meterDialogOpen, setMeterDialogOpen] = useState(false);
+  const [recordLogOpen, setRecordLogOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -24,6 +30,26 @@ export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
     enabled: !!flock?.id,
   });
 
+  const { data: breed } = useQuery<BreedProfile>({
+    queryKey: ['/api/flocks', flock?.id, 'breed-profile'],
+    enabled: !!flock?.id,
+  });
+
+  const { data: feedProgram } = useQuery<FlockFeedProgram>({
+    queryKey: ['/api/flocks', flock?.id, 'feed-program'],
+    enabled: !!flock?.id,
+  });
+
+  const { data: intake } = useQuery<WaterIntakeAnalysis>({
+    queryKey: ['/api/flocks', flock?.id, 'water-intake'],
+    enabled: !!flock?.id,
+  });
+
+  const { data: meterReadings = [] } = useQuery<WaterMeterReading[]>({
+    queryKey: ['/api/flocks', flock?.id, 'water-meter-readings'],
+    enabled: !!flock?.id,
+  });
+
   const addRecordMutation = useMutation({
     mutationFn: async ({ type, amount }: { type: 'feed' | 'water'; amount: number }) => {
       const response = await apiRequest('POST', '/api/feed-water-records', {
@@ -36,15 +62,52 @@ export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'consumption', 'today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'water-intake'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'alerts'] });
+      if (variables.type === 'feed') {
+        queryClient.invalidateQueries({ queryKey: ['/api/farms', flock?.farmId, 'feed-silos'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'feed-program'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'feed-usage'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'performance'] });
+      }
       toast({
         title: "Record Added",
         description: `${variables.type === 'feed' ? 'Feed' : 'Water'} record added successfully.`,
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Failed to Add Record",
-        description: "Please try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addMeterReadingMutation = useMutation({
+    mutationFn: async (reading: number) => {
+      const response = await apiRequest('POST', '/api/water-meter-readings', {
+        flockId: flock?.id,
+        reading,
+        date: new Date().toISOString(),
+      });
+      return response.json() as Promise<WaterMeterReading>;
+    },
+    onSuccess: (reading) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'water-meter-readings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'consumption', 'today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'water-intake'] });
+      toast({
+        title: "Meter Reading Recorded",
+        description: reading.event === 'baseline'
+          ? "First reading stored as the baseline for this flock."
+          : `${reading.consumption.toLocaleString()} L used since the previous reading.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Record Meter Reading",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
     },
@@ -62,7 +125,8 @@ export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
     );
   }
 
-  const targets = calculateConsumptionTargets(flock.chickCount, flock.currentAge);
+  const isClosed = flock.status === 'closed';
+  const targets = calculateConsumptionTargets(flock.chickCount, flock.currentAge, breed ?? getDefaultBreed());
   const dailyFeed = (consumption as { feed: number; water: number })?.feed || 0;
   const dailyWater = (consumption as { feed: number; water: number })?.water || 0;
 
@@ -74,6 +138,18 @@ export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
     setFeedDialogOpen(false);
   };
 
+  const handleAddMeterReading = (reading: number) => {
+    addMeterReadingMutation.mutate(reading);
+    setMeterDialogOpen(false);
+  };
+
+  const lastReading = meterReadings[0];
+  const meterNotes = lastReading ? [
+    lastReading.event === 'rollover' && 'meter rolled over',
+    lastReading.event === 'reset' && 'meter reset detected',
+    lastReading.missingDays > 0 && `${lastReading.missingDays} day(s) without a reading, usage spread evenly`,
+  ].filter(Boolean) : [];
+
   const handleAddWater = (amount: number) => {
     addRecordMutation.mutate({ type: 'water', amount });
     setWaterDialogOpen(false);
@@ -81,14 +157,55 @@ export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
-      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
           <Utensils className="text-farm-orange mr-2" />
           Feed & Water
         </h2>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setRecordLogOpen(true)}
+            data-testid="button-feed-water-records"
+          >
+            <ClipboardList className="mr-1 h-4 w-4" />
+            Records
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setProgramDialogOpen(true)}
+            data-testid="button-feed-program"
+          >
+            <ListOrdered className="mr-1 h-4 w-4" />
+            Program
+          </Button>
+        </div>
       </div>
       <div className="p-6">
         <div className="space-y-4">
+          {feedProgram && (
+            <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Current diet</span>
+                <span className="font-medium text-gray-900 dark:text-gray-100" data-testid="text-current-diet">
+                  {feedProgram.diet}
+                </span>
+              </div>
+              {feedProgram.nextChangeover && !isClosed && (
+                <div className="flex justify-between mt-1">
+                  <span className="text-gray-600 dark:text-gray-400">Next changeover</span>
+                  <span className="text-gray-900 dark:text-gray-100" data-testid="text-next-changeover">
+                    {feedProgram.nextChangeover.diet} on{' '}
+                    {new Date(`${feedProgram.nextChangeover.date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    {' '}(day {feedProgram.nextChangeover.age})
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Feed */}
           <div>
             <div className="flex items-center justify-between mb-2">
@@ -119,12 +236,50 @@ export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
             </div>
           </div>
 
+          {/* Intake per bird and water:feed ratio on the latest completed day */}
+          {intake?.latest && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-lg font-bold text-gray-900 dark:text-gray-100" data-testid="text-water-per-bird">
+                  {intake.latest.waterPerBird ?? '—'} ml
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Water per bird{intake.latest.estimated && ' (meter average)'}
+                </p>
+              </div>
+              <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-lg font-bold text-gray-900 dark:text-gray-100" data-testid="text-water-feed-ratio">
+                  {intake.latest.waterFeedRatio ?? '—'}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">Water:feed ratio</p>
+              </div>
+            </div>
+          )}
+
+          {(intake?.sharpDrop || intake?.noWater) && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg flex items-start">
+              <TrendingDown className="text-red-600 mr-2 h-4 w-4 mt-0.5" />
+              <p className="text-sm text-red-700 dark:text-red-300" data-testid="text-water-drop">
+                {intake.noWater
+                  ? 'No water was recorded on the latest day. Check the water lines and drinkers.'
+                  : `Water intake fell ${intake.dropPercent}% against the previous days. Check drinkers and bird health.`}
+              </p>
+            </div>
+          )}
+
+          {lastReading && (
+            <p className="text-xs text-gray-500 dark:text-gray-400" data-testid="text-last-meter-reading">
+              Last meter reading: {lastReading.reading.toLocaleString()} L
+              {meterNotes.length > 0 && ` (${meterNotes.join('; ')})`}
+            </p>
+          )}
+
           <div className="mt-4 space-y-2">
             <Button 
               variant="outline"
               className="w-full"
               onClick={() => setFeedDialogOpen(true)}
-              disabled={addRecordMutation.isPending}
+              disabled={isClosed || addRecordMutation.isPending}
               data-testid="button-add-feed"
             >
               <Plus className="mr-2 h-4 w-4" />
@@ -134,16 +289,39 @@ export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
               variant="outline"
               className="w-full"
               onClick={() => setWaterDialogOpen(true)}
-              disabled={addRecordMutation.isPending}
+              disabled={isClosed || addRecordMutation.isPending}
               data-testid="button-add-water"
             >
               <Droplets className="mr-2 h-4 w-4" />
               Add Water Record
             </Button>
+            <Button 
+              variant="outline"
+              className="w-full"
+              onClick={() => setMeterDialogOpen(true)}
+              disabled={isClosed || addMeterReadingMutation.isPending}
+              data-testid="button-add-meter-reading"
+            >
+              <Gauge className="mr-2 h-4 w-4" />
+              Enter Meter Reading
+            </Button>
           </div>
         </div>
       </div>
 
+      <FeedProgramDialog
+        open={programDialogOpen}
+        onOpenChange={setProgramDialogOpen}
+        flock={flock}
+      />
+
+      <RecordLogDialog
+        open={recordLogOpen}
+        onOpenChange={setRecordLogOpen}
+        flock={flock}
+        recordType="feed_water"
+      />
+
       {/* Feed Input Dialog */}
       <RecordInputDialog
         open={feedDialogOpen}
@@ -155,6 +333,17 @@ export default function FeedWaterTracker({ flock }: FeedWaterTrackerProps) {
         isLoading={addRecordMutation.isPending}
       />
 
+      {/* Water Meter Dialog */}
+      <RecordInputDialog
+        open={meterDialogOpen}
+        onOpenChange={setMeterDialogOpen}
+        title="Enter Water Meter Reading"
+        description="Enter the cumulative value shown on the drinker line meter"
+        unit="L"
+        onSubmit={handleAddMeterReading}
+        isLoading={addMeterReadingMutation.isPending}
+      />
+
       {/* Water Input Dialog */}
       <RecordInputDialog
         open={waterDialogOpen}
@@ -0,0 +1,218 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FlockWithAge, HealthTreatmentWithStatus } from "@shared/schema";
+import type { CloseOutResults } from "@shared/production";
+
+const closeOutFormSchema = z.object({
+  harvestDate: z.string().min(1, "Harvest date is required"),
+  birdsDelivered: z.number().min(1, "At least one bird must be delivered"),
+  totalLiveWeight: z.number().positive("Live weight must be greater than 0"),
+  condemnations: z.number().min(0, "Condemnations cannot be negative"),
+});
+
+type CloseOutFormData = z.infer<typeof closeOutFormSchema>;
+
+interface FlockCloseOutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  flock: FlockWithAge;
+}
+
+export default function FlockCloseOutDialog({
+  open,
+  onOpenChange,
+  flock,
+}: FlockCloseOutDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: treatments = [] } = useQuery<HealthTreatmentWithStatus[]>({
+    queryKey: ['/api/flocks', flock.id, 'treatments'],
+    enabled: open,
+  });
+
+  const withdrawalClear = treatments
+    .map(t => t.withdrawalEnd)
+    .filter((end): end is string => !!end)
+    .sort()
+    .pop();
+
+  const form = useForm<CloseOutFormData>({
+    resolver: zodResolver(closeOutFormSchema),
+    defaultValues: {
+      harvestDate: new Date().toISOString().slice(0, 10),
+      birdsDelivered: flock.chickCount,
+      totalLiveWeight: 0,
+      condemnations: 0,
+    },
+  });
+
+  const closeOutMutation = useMutation({
+    mutationFn: async (data: CloseOutFormData) => {
+      const response = await apiRequest('POST', `/api/flocks/${flock.id}/close-out`, {
+        ...data,
+        harvestDate: new Date(`${data.harvestDate}T12:00:00`).toISOString(),
+      });
+      return response.json() as Promise<{ flock: FlockWithAge; results: CloseOutResults }>;
+    },
+    onSuccess: ({ results }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', flock.farmId, 'flocks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', flock.farmId, 'cycles'] });
+      toast({
+        title: "Flock Closed Out",
+        description: `${flock.name}: EPEF ${results.epef}, FCR ${results.fcr}, livability ${results.livability}% (${results.mortalityRate}% dead, ${results.cullRate}% culled).`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Close-out Failed",
+        description: error instanceof Error ? error.message : "Please check the values and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: CloseOutFormData) => {
+    closeOutMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-close-out">
+        <DialogHeader>
+          <DialogTitle>Close Out {flock.name}</DialogTitle>
+          <DialogDescription>
+            Record slaughter results to end the cycle. The flock becomes read-only afterwards.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="harvestDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Harvest Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} data-testid="input-harvest-date" />
+                  </FormControl>
+                  {withdrawalClear && (
+                    <FormDescription data-testid="text-withdrawal-clear">
+                      Withdrawal periods apply: birds may be slaughtered from {withdrawalClear}
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="birdsDelivered"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Birds Delivered</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        data-testid="input-birds-delivered"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="condemnations"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Condemnations</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        data-testid="input-condemnations"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="totalLiveWeight"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Total Live Weight (kg)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      {...field}
+                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      data-testid="input-total-live-weight"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Weight of all delivered birds as weighed at the plant
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                data-testid="button-cancel-close-out"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={closeOutMutation.isPending}
+                data-testid="button-save-close-out"
+              >
+                {closeOutMutation.isPending ? 'Closing...' : 'Close Out Flock'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
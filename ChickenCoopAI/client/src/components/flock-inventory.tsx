@@ -0,0 +1,209 @@
+import { Users, Truck } from "lucide-react";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { FlockWithAge } from "@shared/schema";
+import type { FlockSummary } from "@shared/production";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface FlockInventoryProps {
+  flock?: FlockWithAge;
+}
+
+export default function FlockInventory({ flock }: FlockInventoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [headCount, setHeadCount] = useState(0);
+  const [totalWeight, setTotalWeight] = useState(0);
+  const [buyer, setBuyer] = useState("");
+  const [pricePerKg, setPricePerKg] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: summary } = useQuery<FlockSummary>({
+    queryKey: ['/api/flocks', flock?.id, 'summary'],
+    enabled: !!flock?.id,
+  });
+
+  const addSaleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/bird-sales', {
+        flockId: flock?.id,
+        headCount,
+        totalWeight,
+        buyer: buyer || null,
+        pricePerKg: pricePerKg ? parseFloat(pricePerKg) : null,
+        date: new Date().toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'summary'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'bird-sales'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'performance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', flock?.farmId, 'flocks'] });
+      toast({
+        title: "Sale Recorded",
+        description: `${headCount} birds removed from the live count.`,
+      });
+      setIsOpen(false);
+      setHeadCount(0);
+      setTotalWeight(0);
+      setBuyer("");
+      setPricePerKg("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Record Sale",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (headCount > 0 && totalWeight > 0) {
+      addSaleMutation.mutate();
+    }
+  };
+
+  if (!flock) {
+    return null;
+  }
+
+  const rows = [
+    { label: 'Placed', value: summary?.placed ?? flock.initialChickCount, testId: 'placed' },
+    { label: 'Dead', value: summary?.dead ?? 0, testId: 'dead' },
+    { label: 'Culled', value: summary?.culled ?? 0, testId: 'culled' },
+    { label: 'Sold', value: summary?.sold ?? 0, testId: 'sold' },
+    { label: 'Remaining', value: summary?.remaining ?? flock.chickCount, testId: 'remaining' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+          <Users className="text-farm-blue mr-2" />
+          Flock Inventory
+        </h2>
+      </div>
+      <div className="p-6">
+        <div className="space-y-4">
+          <div className="space-y-2 text-sm">
+            {rows.map((row) => (
+              <div key={row.testId} className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">{row.label}</span>
+                <span
+                  className={`font-medium ${row.testId === 'remaining' ? 'text-gray-900 dark:text-gray-100' : 'text-gray-700 dark:text-gray-300'}`}
+                  data-testid={`text-inventory-${row.testId}`}
+                >
+                  {row.value.toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={flock.status === 'closed'}
+                data-testid="button-add-sale"
+              >
+                <Truck className="mr-2 h-4 w-4" />
+                Record Sale / Thinning
+              </Button>
+            </DialogTrigger>
+            <DialogContent data-testid="dialog-bird-sale">
+              <DialogHeader>
+                <DialogTitle>Record Bird Sale</DialogTitle>
+                <DialogDescription>
+                  Birds sold before final catch leave the live count without counting as mortality
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="saleHeadCount">Birds Sold</Label>
+                    <Input
+                      id="saleHeadCount"
+                      type="number"
+                      min="1"
+                      value={headCount || ""}
+                      onChange={(e) => setHeadCount(parseInt(e.target.value) || 0)}
+                      data-testid="input-sale-head-count"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="saleWeight">Total Weight (kg)</Label>
+                    <Input
+                      id="saleWeight"
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={totalWeight || ""}
+                      onChange={(e) => setTotalWeight(parseFloat(e.target.value) || 0)}
+                      data-testid="input-sale-weight"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="saleBuyer">Buyer</Label>
+                    <Input
+                      id="saleBuyer"
+                      value={buyer}
+                      onChange={(e) => setBuyer(e.target.value)}
+                      data-testid="input-sale-buyer"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="salePrice">Price per kg</Label>
+                    <Input
+                      id="salePrice"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={pricePerKg}
+                      onChange={(e) => setPricePerKg(e.target.value)}
+                      data-testid="input-sale-price"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsOpen(false)}
+                    data-testid="button-cancel-sale"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={addSaleMutation.isPending || headCount <= 0 || totalWeight <= 0}
+                    data-testid="button-save-sale"
+                  >
+                    {addSaleMutation.isPending ? 'Recording...' : 'Record Sale'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,46 @@
 import { TrendingUp, Info } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Progress } from "@/components/ui/progress";
-import type { Flock } from "@shared/schema";
+import type { FlockWithAge, WeighSessionWithStats } from "@shared/schema";
+import { getDefaultBreed, type BreedProfile } from "@shared/breeds";
+import type { FlockPerformance } from "@shared/production";
+import type { EnvironmentalCalculation } from "@shared/environment";
 import { calculateGrowthProjections } from "@/lib/calculations";
 import { apiRequest } from "@/lib/queryClient";
 
 interface GrowthProjectionsProps {
-  flock?: Flock;
+  flock?: FlockWithAge;
   farmId: string;
 }
 
 export default function GrowthProjections({ flock, farmId }: GrowthProjectionsProps) {
-  const { data: calculations } = useQuery({
-    queryKey: ['/api/calculate-environment', farmId],
+  const { data: calculations } = useQuery<EnvironmentalCalculation>({
+    queryKey: ['/api/calculate-environment', farmId, flock?.id],
     queryFn: async () => {
       const response = await apiRequest('POST', '/api/calculate-environment', {
         farmId,
-        outsideTemp: 22,
-        outsideHumidity: 45,
-        windSpeed: 12,
-        flockAge: flock?.currentAge || 18,
+        flockId: flock?.id,
       });
       return response.json();
     },
     enabled: !!flock,
   });
 
+  const { data: breed } = useQuery<BreedProfile>({
+    queryKey: ['/api/flocks', flock?.id, 'breed-profile'],
+    enabled: !!flock?.id,
+  });
+
+  const { data: latestWeighing } = useQuery<WeighSessionWithStats | null>({
+    queryKey: ['/api/flocks', flock?.id, 'weigh-sessions', 'latest'],
+    enabled: !!flock?.id,
+  });
+
+  const { data: performance } = useQuery<FlockPerformance>({
+    queryKey: ['/api/flocks', flock?.id, 'performance'],
+    enabled: !!flock?.id,
+  });
+
   if (!flock) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
@@ -38,7 +53,12 @@ export default function GrowthProjections({ flock, farmId }: GrowthProjectionsPr
     );
   }
 
-  const projections = calculations ? calculateGrowthProjections(flock, calculations) : null;
+  const projections = calculations ? calculateGrowthProjections(
+    flock,
+    calculations,
+    breed ?? getDefaultBreed(),
+    latestWeighing && { mean: latestWeighing.stats.mean, age: latestWeighing.age },
+  ) : null;
 
   if (!projections) {
     return (
@@ -55,7 +75,10 @@ export default function GrowthProjections({ flock, farmId }: GrowthProjectionsPr
 
   const growthRateColor = projections.growthRateVsStandard > 0 ? 'text-green-600' : 'text-red-600';
   const growthRateSign = projections.growthRateVsStandard > 0 ? '+' : '';
-  const fcrColor = projections.fcr <= 1.65 ? 'text-green-600' : 'text-yellow-600';
+  const fcr = performance?.cumulativeFcr ?? null;
+  const fcrColor = fcr === null
+    ? 'text-gray-900 dark:text-gray-100'
+    : fcr <= performance!.targetFcr ? 'text-green-600' : 'text-yellow-600';
   
   const getEnvironmentalMessage = () => {
     if (projections.environmentalFactor >= 1.0) {
@@ -121,18 +144,46 @@ export default function GrowthProjections({ flock, farmId }: GrowthProjectionsPr
               <div className="flex justify-between text-sm mb-1">
                 <span className="text-gray-600 dark:text-gray-400">Feed Conversion Ratio</span>
                 <span className={`font-medium ${fcrColor}`} data-testid="text-fcr">
-                  {projections.fcr}
+                  {fcr ?? '—'}
                 </span>
               </div>
               <Progress 
-                value={Math.min(100, (1.8 - projections.fcr) / 0.6 * 100)} 
+                value={fcr ? Math.min(100, (performance!.targetFcr / fcr) * 100) : 0} 
                 className="w-full h-2" 
                 data-testid="progress-fcr"
               />
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                Target: 1.65 (Better efficiency)
+                {fcr === null
+                  ? 'Record feed to calculate the actual FCR'
+                  : `Target: ${performance!.targetFcr} for ${breed?.name ?? 'breed'} at day ${flock.currentAge}`}
               </p>
             </div>
+
+            {performance && (
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Weekly FCR</span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100" data-testid="text-weekly-fcr">
+                    {performance.weeklyFcr ?? '—'}
+                    {performance.targetWeeklyFcr !== null && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400"> / {performance.targetWeeklyFcr} target</span>
+                    )}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Feed per bird placed</span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100" data-testid="text-feed-per-bird">
+                    {performance.feedPerBird} kg
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Live biomass</span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100" data-testid="text-live-biomass">
+                    {performance.liveBiomass.toLocaleString()} kg
+                  </span>
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
@@ -0,0 +1,311 @@
+import { Syringe, Plus, ShieldAlert } from "lucide-react";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FlockWithAge, HealthTreatmentWithStatus } from "@shared/schema";
+import { TREATMENT_ROUTE_LABELS, type TreatmentKind, type TreatmentRoute, type TreatmentStatus } from "@shared/health";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface HealthProgramProps {
+  flock?: FlockWithAge;
+}
+
+const statusStyles: Record<TreatmentStatus, { label: string; className: string }> = {
+  planned: { label: "Planned", className: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300" },
+  due: { label: "Due today", className: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300" },
+  overdue: { label: "Overdue", className: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300" },
+  withdrawal: { label: "Withdrawal", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300" },
+  given: { label: "Given", className: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300" },
+};
+
+const emptyPlan = {
+  kind: "vaccination" as TreatmentKind,
+  product: "",
+  route: "drinking_water" as TreatmentRoute,
+  dose: "",
+  plannedAge: 0,
+  withdrawalDays: 0,
+};
+
+export default function HealthProgram({ flock }: HealthProgramProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [plan, setPlan] = useState(emptyPlan);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: treatments = [] } = useQuery<HealthTreatmentWithStatus[]>({
+    queryKey: ['/api/flocks', flock?.id, 'treatments'],
+    enabled: !!flock?.id,
+  });
+
+  const invalidateTreatments = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'treatments'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/farms', flock?.farmId, 'treatments'] });
+  };
+
+  const addPlanMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/treatments', { flockId: flock?.id, ...plan });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTreatments();
+      toast({
+        title: "Treatment Planned",
+        description: `${plan.product} scheduled for day ${plan.plannedAge}.`,
+      });
+      setIsOpen(false);
+      setPlan(emptyPlan);
+    },
+    onError: () => {
+      toast({
+        title: "Failed to Plan Treatment",
+        description: "Please check the values and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const administerMutation = useMutation({
+    mutationFn: async (treatmentId: string) => {
+      const response = await apiRequest('POST', `/api/treatments/${treatmentId}/administer`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTreatments();
+      toast({
+        title: "Administration Recorded",
+        description: "The treatment has been marked as given today.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to Record Administration",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (plan.product && plan.dose) {
+      addPlanMutation.mutate();
+    }
+  };
+
+  if (!flock) {
+    return null;
+  }
+
+  const isClosed = flock.status === 'closed';
+  const activeWithdrawal = treatments
+    .filter(t => t.status === 'withdrawal')
+    .sort((a, b) => b.withdrawalEnd!.localeCompare(a.withdrawalEnd!))[0];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+          <Syringe className="text-farm-blue mr-2" />
+          Health Program
+        </h2>
+      </div>
+      <div className="p-6">
+        <div className="space-y-4">
+          {activeWithdrawal && (
+            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg flex items-start">
+              <ShieldAlert className="text-yellow-600 mr-2 h-4 w-4 mt-0.5" />
+              <p className="text-sm text-yellow-800 dark:text-yellow-300" data-testid="text-withdrawal-active">
+                Withdrawal active for {activeWithdrawal.product}. Do not harvest before {activeWithdrawal.withdrawalEnd}.
+              </p>
+            </div>
+          )}
+
+          {treatments.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center" data-testid="text-no-treatments">
+              No vaccinations or medications planned
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {treatments.map((treatment) => (
+                <div
+                  key={treatment.id}
+                  className="flex items-center justify-between text-sm"
+                  data-testid={`row-treatment-${treatment.id}`}
+                >
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">
+                      Day {treatment.plannedAge} · {treatment.product}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {TREATMENT_ROUTE_LABELS[treatment.route]} · {treatment.dose}
+                      {treatment.withdrawalDays > 0 && ` · ${treatment.withdrawalDays}d withdrawal`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={`border-0 ${statusStyles[treatment.status].className}`}
+                      data-testid={`badge-treatment-status-${treatment.id}`}
+                    >
+                      {statusStyles[treatment.status].label}
+                    </Badge>
+                    {!treatment.administeredAt && !isClosed && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => administerMutation.mutate(treatment.id)}
+                        disabled={administerMutation.isPending}
+                        data-testid={`button-administer-${treatment.id}`}
+                      >
+                        Mark Given
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={isClosed}
+                data-testid="button-add-treatment"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Plan Treatment
+              </Button>
+            </DialogTrigger>
+            <DialogContent data-testid="dialog-treatment">
+              <DialogHeader>
+                <DialogTitle>Plan Vaccination or Medication</DialogTitle>
+                <DialogDescription>
+                  The treatment shows up as a due task on the planned day of age
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Type</Label>
+                    <Select
+                      value={plan.kind}
+                      onValueChange={(kind) => setPlan({ ...plan, kind: kind as TreatmentKind })}
+                    >
+                      <SelectTrigger data-testid="select-treatment-kind">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="vaccination">Vaccination</SelectItem>
+                        <SelectItem value="medication">Medication</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Route</Label>
+                    <Select
+                      value={plan.route}
+                      onValueChange={(route) => setPlan({ ...plan, route: route as TreatmentRoute })}
+                    >
+                      <SelectTrigger data-testid="select-treatment-route">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(TREATMENT_ROUTE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="treatmentProduct">Product</Label>
+                  <Input
+                    id="treatmentProduct"
+                    placeholder="e.g. Newcastle B1 or Amoxicillin"
+                    value={plan.product}
+                    onChange={(e) => setPlan({ ...plan, product: e.target.value })}
+                    data-testid="input-treatment-product"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="treatmentDose">Dose</Label>
+                  <Input
+                    id="treatmentDose"
+                    placeholder="e.g. 1 dose/bird or 0.5 ml/L"
+                    value={plan.dose}
+                    onChange={(e) => setPlan({ ...plan, dose: e.target.value })}
+                    data-testid="input-treatment-dose"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="treatmentAge">Planned Age (days)</Label>
+                    <Input
+                      id="treatmentAge"
+                      type="number"
+                      min="0"
+                      value={plan.plannedAge}
+                      onChange={(e) => setPlan({ ...plan, plannedAge: parseInt(e.target.value) || 0 })}
+                      data-testid="input-treatment-age"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="treatmentWithdrawal">Withdrawal (days)</Label>
+                    <Input
+                      id="treatmentWithdrawal"
+                      type="number"
+                      min="0"
+                      value={plan.withdrawalDays}
+                      onChange={(e) => setPlan({ ...plan, withdrawalDays: parseInt(e.target.value) || 0 })}
+                      data-testid="input-treatment-withdrawal"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsOpen(false)}
+                    data-testid="button-cancel-treatment"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={addPlanMutation.isPending || !plan.product || !plan.dose}
+                    data-testid="button-save-treatment"
+                  >
+                    {addPlanMutation.isPending ? 'Saving...' : 'Save Plan'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+    </div>
+  );
+}
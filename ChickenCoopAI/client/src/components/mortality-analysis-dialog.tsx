@@ -0,0 +1,202 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Separator } from "@/components/ui/separator";
+import type { FlockWithAge } from "@shared/schema";
+import type { MortalityAnalysis } from "@shared/mortality";
+
+interface MortalityAnalysisDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  flock: FlockWithAge;
+}
+
+const curveConfig = {
+  percent: { label: "Daily (%)", color: "var(--chart-5)" },
+  cumulativePercent: { label: "Cumulative (%)", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const paretoConfig = {
+  dead: { label: "Found dead", color: "var(--chart-5)" },
+  culled: { label: "Culled", color: "var(--chart-4)" },
+  cumulativeShare: { label: "Cumulative share (%)", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+export default function MortalityAnalysisDialog({ open, onOpenChange, flock }: MortalityAnalysisDialogProps) {
+  const { data: analysis } = useQuery<MortalityAnalysis>({
+    queryKey: ['/api/flocks', flock.id, 'mortality', 'analysis'],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-mortality-analysis">
+        <DialogHeader>
+          <DialogTitle>Mortality Analysis for {flock.name}</DialogTitle>
+          <DialogDescription>
+            Losses (dead and culled) as a share of the {flock.initialChickCount.toLocaleString()} birds placed
+          </DialogDescription>
+        </DialogHeader>
+
+        {analysis && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-lg font-bold text-gray-900 dark:text-gray-100" data-testid="text-analysis-cumulative">
+                  {analysis.cumulativePercent}%
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Cumulative (standard {analysis.standardCumulative}%)
+                </p>
+              </div>
+              <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-lg font-bold text-gray-900 dark:text-gray-100" data-testid="text-first-week-mortality">
+                  {analysis.firstWeekPercent !== null ? `${analysis.firstWeekPercent}%` : '—'}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">First week</p>
+              </div>
+              <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-lg font-bold text-gray-900 dark:text-gray-100" data-testid="text-last-week-mortality">
+                  {analysis.lastWeekPercent}%
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">Last 7 days</p>
+              </div>
+              <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-lg font-bold text-gray-900 dark:text-gray-100" data-testid="text-mortality-losses">
+                  {analysis.losses.toLocaleString()}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Birds lost ({analysis.culled.toLocaleString()} culled, {analysis.cullPercent}%)
+                </p>
+              </div>
+            </div>
+
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Daily and Cumulative Mortality</h3>
+            <ChartContainer config={curveConfig} className="h-56 w-full aspect-auto" data-testid="chart-mortality-curve">
+              <ComposedChart data={analysis.days} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="age" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis yAxisId="daily" tickLine={false} axisLine={false} width={36} />
+                <YAxis yAxisId="cumulative" orientation="right" tickLine={false} axisLine={false} width={36} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Day ${payload[0]?.payload.age}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar yAxisId="daily" dataKey="percent" fill="var(--color-percent)" />
+                <Line
+                  yAxisId="cumulative"
+                  dataKey="cumulativePercent"
+                  type="monotone"
+                  stroke="var(--color-cumulativePercent)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </ComposedChart>
+            </ChartContainer>
+
+            <Separator />
+
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Weekly Mortality vs Standard</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Week</TableHead>
+                  <TableHead className="text-right">Birds</TableHead>
+                  <TableHead className="text-right">Week %</TableHead>
+                  <TableHead className="text-right">Standard</TableHead>
+                  <TableHead className="text-right">Cumulative</TableHead>
+                  <TableHead className="text-right">Standard</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analysis.weeks.map((week) => (
+                  <TableRow key={week.week} data-testid={`row-mortality-week-${week.week}`}>
+                    <TableCell className="font-medium">{week.week}</TableCell>
+                    <TableCell className="text-right">{week.deaths}</TableCell>
+                    <TableCell className={`text-right ${week.percent > week.standard ? 'text-red-600 font-medium' : ''}`}>
+                      {week.percent}%
+                    </TableCell>
+                    <TableCell className="text-right text-gray-500 dark:text-gray-400">{week.standard}%</TableCell>
+                    <TableCell className="text-right">{week.cumulativePercent}%</TableCell>
+                    <TableCell className="text-right text-gray-500 dark:text-gray-400">{week.standardCumulative}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Separator />
+
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Losses by Reason</h3>
+            {analysis.reasons.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No losses recorded</p>
+            ) : (
+              <>
+                <ChartContainer config={paretoConfig} className="h-56 w-full aspect-auto" data-testid="chart-mortality-pareto">
+                  <ComposedChart data={analysis.reasons} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="reason" tickLine={false} axisLine={false} />
+                    <YAxis yAxisId="birds" tickLine={false} axisLine={false} width={36} />
+                    <YAxis yAxisId="share" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} width={36} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar yAxisId="birds" dataKey="dead" stackId="losses" fill="var(--color-dead)" />
+                    <Bar yAxisId="birds" dataKey="culled" stackId="losses" fill="var(--color-culled)" />
+                    <Line
+                      yAxisId="share"
+                      dataKey="cumulativeShare"
+                      type="monotone"
+                      stroke="var(--color-cumulativeShare)"
+                      strokeWidth={2}
+                    />
+                  </ComposedChart>
+                </ChartContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Found dead</TableHead>
+                      <TableHead className="text-right">Culled</TableHead>
+                      <TableHead className="text-right">% of placed</TableHead>
+                      <TableHead className="text-right">Share of losses</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analysis.reasons.map((reason) => (
+                      <TableRow key={reason.reason} data-testid={`row-mortality-reason-${reason.reason}`}>
+                        <TableCell className="font-medium">{reason.reason}</TableCell>
+                        <TableCell className="text-right">{reason.dead}</TableCell>
+                        <TableCell className="text-right">{reason.culled}</TableCell>
+                        <TableCell className="text-right">{reason.percent}%</TableCell>
+                        <TableCell className="text-right">{reason.share}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
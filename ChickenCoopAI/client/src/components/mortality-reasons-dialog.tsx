@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MORTALITY_TYPE_LABELS,
+  mortalityTypes,
+  type MortalityReason,
+  type MortalityType,
+} from "@shared/mortality";
+
+interface MortalityReasonsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  farmId: string;
+}
+
+export default function MortalityReasonsDialog({ open, onOpenChange, farmId }: MortalityReasonsDialogProps) {
+  const [label, setLabel] = useState("");
+  const [type, setType] = useState<MortalityType>("dead");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reasons = [] } = useQuery<MortalityReason[]>({
+    queryKey: ['/api/farms', farmId, 'mortality-reasons'],
+    enabled: open,
+  });
+
+  const addReasonMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/farms/${farmId}/mortality-reasons`, { label, type });
+      return response.json() as Promise<MortalityReason>;
+    },
+    onSuccess: (reason) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', farmId, 'mortality-reasons'] });
+      toast({
+        title: "Reason Added",
+        description: `${reason.label} can now be recorded for ${reason.type} birds.`,
+      });
+      setLabel("");
+    },
+    onError: () => {
+      toast({
+        title: "Failed to Add Reason",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (label.trim()) {
+      addReasonMutation.mutate();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto" data-testid="dialog-mortality-reasons">
+        <DialogHeader>
+          <DialogTitle>Mortality Reasons</DialogTitle>
+          <DialogDescription>
+            Reason codes offered when recording dead and culled birds on this farm
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          {mortalityTypes.map((reasonType) => (
+            <div key={reasonType}>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
+                {MORTALITY_TYPE_LABELS[reasonType]}
+              </h3>
+              <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300" data-testid={`list-reasons-${reasonType}`}>
+                {reasons.filter((reason) => reason.type === reasonType).map((reason) => (
+                  <li key={reason.code}>
+                    {reason.label} {reason.builtIn ? '' : <span className="text-gray-500 dark:text-gray-400">(custom)</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Add Reason</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="reasonLabel">Label</Label>
+              <Input
+                id="reasonLabel"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Prolapse"
+                data-testid="input-reason-label"
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as MortalityType)}>
+                <SelectTrigger data-testid="select-reason-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {mortalityTypes.map((reasonType) => (
+                    <SelectItem key={reasonType} value={reasonType}>
+                      {MORTALITY_TYPE_LABELS[reasonType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              data-testid="button-close-mortality-reasons"
+            >
+              Close
+            </Button>
+            <Button
+              type="submit"
+              disabled={addReasonMutation.isPending || !label.trim()}
+              data-testid="button-add-reason"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {addReasonMutation.isPending ? 'Adding...' : 'Add Reason'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
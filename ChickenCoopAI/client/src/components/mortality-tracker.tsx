@@ -1,9 +1,10 @@
-import { Heart, Plus, AlertTriangle } from "lucide-react";
+import { Heart, Plus, AlertTriangle, ClipboardList, BarChart3, Tags } from "lucide-react";
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
   DialogContent,
@@ -19,28 +20,38 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { Flock } from "@shared/schema";
+import type { FlockWithAge } from "@shared/schema";
+import type { FlockSummary } from "@shared/production";
+import {
+  MORTALITY_TYPE_LABELS,
+  mortalityTypes,
+  type MortalityAnalysis,
+  type MortalityReason,
+  type MortalityType,
+} from "@shared/mortality";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import RecordLogDialog from "./record-log-dialog";
+import MortalityAnalysisDialog from "./mortality-analysis-dialog";
+import MortalityReasonsDialog from "./mortality-reasons-dialog";
 
 interface MortalityTrackerProps {
-  flock?: Flock;
+  flock?: FlockWithAge;
 }
 
-const mortalityCauses = [
-  "Natural",
-  "Disease",
-  "Heat stress",
-  "Cold stress",
-  "Injury",
-  "Unknown",
-  "Culling",
-];
+// Select value for a loss recorded without a reason code
+const NO_REASON = "none";
 
 export default function MortalityTracker({ flock }: MortalityTrackerProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [recordLogOpen, setRecordLogOpen] = useState(false);
+  const [analysisOpen, setAnalysisOpen] = useState(false);
+  const [reasonsOpen, setReasonsOpen] = useState(false);
   const [deathCount, setDeathCount] = useState(1);
-  const [cause, setCause] = useState("Natural");
+  const [type, setType] = useState<MortalityType>("dead");
+  const [reasonCode, setReasonCode] = useState(NO_REASON);
+  const [necropsyFindings, setNecropsyFindings] = useState("");
+  const [vetReference, setVetReference] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -49,31 +60,59 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
     enabled: !!flock?.id,
   });
 
+  const { data: summary } = useQuery<FlockSummary>({
+    queryKey: ['/api/flocks', flock?.id, 'summary'],
+    enabled: !!flock?.id,
+  });
+
+  const { data: analysis } = useQuery<MortalityAnalysis>({
+    queryKey: ['/api/flocks', flock?.id, 'mortality', 'analysis'],
+    enabled: !!flock?.id,
+  });
+
+  const { data: reasons = [] } = useQuery<MortalityReason[]>({
+    queryKey: ['/api/farms', flock?.farmId, 'mortality-reasons'],
+    enabled: !!flock?.farmId,
+  });
+
+  const resetForm = () => {
+    setDeathCount(1);
+    setType("dead");
+    setReasonCode(NO_REASON);
+    setNecropsyFindings("");
+    setVetReference("");
+  };
+
   const addMortalityMutation = useMutation({
-    mutationFn: async ({ deathCount, cause }: { deathCount: number; cause: string }) => {
+    mutationFn: async () => {
       const response = await apiRequest('POST', '/api/mortality-records', {
         flockId: flock?.id,
         deathCount,
-        cause,
+        type,
+        reasonCode: reasonCode === NO_REASON ? undefined : reasonCode,
+        necropsyFindings: necropsyFindings.trim() || undefined,
+        vetReference: vetReference.trim() || undefined,
         date: new Date().toISOString(),
       });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'mortality'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'summary'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'performance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'alerts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/farms', flock?.farmId, 'flocks'] });
       toast({
         title: "Mortality Record Added",
         description: "Mortality data has been recorded successfully.",
       });
       setIsOpen(false);
-      setDeathCount(1);
-      setCause("Natural");
+      resetForm();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Failed to Add Record",
-        description: "Please try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
     },
@@ -82,7 +121,7 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (deathCount > 0) {
-      addMortalityMutation.mutate({ deathCount, cause });
+      addMortalityMutation.mutate();
     }
   };
 
@@ -99,28 +138,55 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
   }
 
   const currentMortality = (todaysMortality as { mortality: number })?.mortality || 0;
-  const totalLosses = flock.initialChickCount - flock.chickCount;
+  // Sold birds are not losses; fall back to the live count until the summary loads
+  const totalLosses = summary
+    ? summary.dead + summary.culled
+    : flock.initialChickCount - flock.chickCount;
   const mortalityRate = ((totalLosses / flock.initialChickCount) * 100);
+  const typeReasons = reasons.filter(r => r.type === type);
+
+  // Judged against the breed-type standard at the flock's age rather than fixed rates
+  const standard = analysis?.standardCumulative ?? 0;
 
   const getMortalityColor = (rate: number) => {
-    if (rate <= 2) return 'text-green-600';
-    if (rate <= 5) return 'text-yellow-600';
+    if (rate <= standard) return 'text-green-600';
+    if (rate <= standard * 1.5) return 'text-yellow-600';
     return 'text-red-600';
   };
 
   const getMortalityStatus = (rate: number) => {
-    if (rate <= 2) return 'Excellent';
-    if (rate <= 5) return 'Good';
+    if (rate <= standard) return 'Excellent';
+    if (rate <= standard * 1.5) return 'Good';
     return 'Concerning';
   };
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
-      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
           <Heart className="text-red-500 mr-2" />
           Mortality Tracking
         </h2>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setAnalysisOpen(true)}
+            data-testid="button-mortality-analysis"
+          >
+            <BarChart3 className="mr-1 h-4 w-4" />
+            Analysis
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setRecordLogOpen(true)}
+            data-testid="button-mortality-records"
+          >
+            <ClipboardList className="mr-1 h-4 w-4" />
+            Records
+          </Button>
+        </div>
       </div>
       <div className="p-6">
         <div className="space-y-4">
@@ -130,7 +196,7 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
               <p className="text-2xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-today-mortality">
                 {currentMortality}
               </p>
-              <p className="text-xs text-gray-600 dark:text-gray-400">Deaths today</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Losses today</p>
             </div>
             <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
               <p className={`text-2xl font-bold ${getMortalityColor(mortalityRate)}`} data-testid="text-mortality-rate">
@@ -151,6 +217,16 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
                 <p className="text-xs text-blue-600 dark:text-blue-400">
                   Total losses: {totalLosses} birds from initial {flock.initialChickCount}
                 </p>
+                {summary && (
+                  <p className="text-xs text-blue-600 dark:text-blue-400" data-testid="text-mortality-split">
+                    Found dead: {summary.dead} · Culled: {summary.culled}
+                  </p>
+                )}
+                {analysis && (
+                  <p className="text-xs text-blue-600 dark:text-blue-400" data-testid="text-mortality-standard">
+                    Standard for day {flock.currentAge}: {analysis.standardCumulative}%
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -161,6 +237,7 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
               <Button 
                 variant="outline" 
                 className="w-full"
+                disabled={flock.status === 'closed'}
                 data-testid="button-add-mortality"
               >
                 <Plus className="mr-2 h-4 w-4" />
@@ -171,12 +248,33 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
               <DialogHeader>
                 <DialogTitle>Record Mortality</DialogTitle>
                 <DialogDescription>
-                  Add mortality data for today
+                  Record birds found dead or culled today
                 </DialogDescription>
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
-                  <Label htmlFor="deathCount">Number of Deaths</Label>
+                  <Label>Type</Label>
+                  <Select
+                    value={type}
+                    onValueChange={(value) => {
+                      setType(value as MortalityType);
+                      setReasonCode(NO_REASON);
+                    }}
+                  >
+                    <SelectTrigger data-testid="select-mortality-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {mortalityTypes.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {MORTALITY_TYPE_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="deathCount">Number of Birds</Label>
                   <Input
                     id="deathCount"
                     type="number"
@@ -187,20 +285,54 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
                   />
                 </div>
                 <div>
-                  <Label htmlFor="cause">Cause</Label>
-                  <Select value={cause} onValueChange={setCause}>
-                    <SelectTrigger data-testid="select-mortality-cause">
-                      <SelectValue placeholder="Select cause" />
+                  <div className="flex items-center justify-between">
+                    <Label>Reason</Label>
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => setReasonsOpen(true)}
+                      data-testid="button-mortality-reasons"
+                    >
+                      <Tags className="mr-1 h-3 w-3" />
+                      Edit reasons
+                    </Button>
+                  </div>
+                  <Select value={reasonCode} onValueChange={setReasonCode}>
+                    <SelectTrigger data-testid="select-mortality-reason">
+                      <SelectValue placeholder="Select reason" />
                     </SelectTrigger>
                     <SelectContent>
-                      {mortalityCauses.map((causeOption) => (
-                        <SelectItem key={causeOption} value={causeOption}>
-                          {causeOption}
+                      <SelectItem value={NO_REASON}>Unknown</SelectItem>
+                      {typeReasons.map((reason) => (
+                        <SelectItem key={reason.code} value={reason.code}>
+                          {reason.label}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <Label htmlFor="necropsyFindings">Necropsy Findings (optional)</Label>
+                  <Textarea
+                    id="necropsyFindings"
+                    rows={2}
+                    value={necropsyFindings}
+                    onChange={(e) => setNecropsyFindings(e.target.value)}
+                    placeholder="e.g. fluid in the abdomen, enlarged right ventricle"
+                    data-testid="input-necropsy-findings"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="vetReference">Vet or Lab Reference (optional)</Label>
+                  <Input
+                    id="vetReference"
+                    value={vetReference}
+                    onChange={(e) => setVetReference(e.target.value)}
+                    data-testid="input-vet-reference"
+                  />
+                </div>
                 <div className="flex justify-end space-x-2">
                   <Button 
                     type="button" 
@@ -223,6 +355,27 @@ export default function MortalityTracker({ flock }: MortalityTrackerProps) {
           </Dialog>
         </div>
       </div>
+
+      <RecordLogDialog
+        open={recordLogOpen}
+        onOpenChange={setRecordLogOpen}
+        flock={flock}
+        recordType="mortality"
+      />
+
+      <MortalityAnalysisDialog
+        open={analysisOpen}
+        onOpenChange={setAnalysisOpen}
+        flock={flock}
+      />
+
+      {flock.farmId && (
+        <MortalityReasonsDialog
+          open={reasonsOpen}
+          onOpenChange={setReasonsOpen}
+          farmId={flock.farmId}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,285 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Farm, FlockWithAge } from "@shared/schema";
+import { DEFAULT_BREED_ID, getDefaultBreed, type BreedProfile, type BreedType } from "@shared/breeds";
+
+const newFlockSchema = z.object({
+  name: z.string().min(1, "Flock name is required"),
+  chickCount: z.number().min(1, "At least one chick is required"),
+  placementDate: z.string().min(1, "Placement date is required"),
+  type: z.enum(["broiler", "layer"]),
+  breedId: z.string().min(1, "Breed is required"),
+  averageWeight: z.number().min(20, "Weight must be at least 20g").max(5000, "Weight must be less than 5000g"),
+});
+
+type NewFlockData = z.infer<typeof newFlockSchema>;
+
+interface NewFlockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  farm: Farm;
+  onCreated?: (flock: FlockWithAge) => void;
+}
+
+export default function NewFlockDialog({
+  open,
+  onOpenChange,
+  farm,
+  onCreated,
+}: NewFlockDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<NewFlockData>({
+    resolver: zodResolver(newFlockSchema),
+    defaultValues: {
+      name: "",
+      chickCount: 1000,
+      placementDate: new Date().toISOString().slice(0, 10),
+      type: "broiler",
+      breedId: DEFAULT_BREED_ID,
+      averageWeight: 42,
+    },
+  });
+
+  const { data: profiles = [] } = useQuery<BreedProfile[]>({
+    queryKey: ['/api/farms', farm.id, 'breed-profiles'],
+    enabled: open,
+  });
+
+  const createFlockMutation = useMutation({
+    mutationFn: async (data: NewFlockData) => {
+      const response = await apiRequest('POST', '/api/flocks', {
+        farmId: farm.id,
+        name: data.name,
+        chickCount: data.chickCount,
+        initialChickCount: data.chickCount,
+        averageWeight: data.averageWeight,
+        type: data.type,
+        breedId: data.breedId,
+        // Midday keeps the placement on the chosen calendar day in any timezone
+        batchDate: new Date(`${data.placementDate}T12:00:00`).toISOString(),
+      });
+      return response.json() as Promise<FlockWithAge>;
+    },
+    onSuccess: (flock) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', farm.id, 'flocks'] });
+      toast({
+        title: "Flock Created",
+        description: `${flock.name} has been added to ${farm.name}.`,
+      });
+      form.reset();
+      onOpenChange(false);
+      onCreated?.(flock);
+    },
+    onError: () => {
+      toast({
+        title: "Creation Failed",
+        description: "Failed to create flock. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: NewFlockData) => {
+    createFlockMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-new-flock">
+        <DialogHeader>
+          <DialogTitle>New Flock</DialogTitle>
+          <DialogDescription>
+            Place a new batch of chicks in {farm.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Flock/Batch Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Enter flock name"
+                      {...field}
+                      data-testid="input-new-flock-name"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="chickCount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chicks Placed</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        data-testid="input-new-flock-count"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="placementDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Placement Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        {...field}
+                        data-testid="input-new-flock-date"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Flock Type</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue('breedId', getDefaultBreed(value as BreedType).id);
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-new-flock-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="broiler">Broiler</SelectItem>
+                        <SelectItem value="layer">Layer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="breedId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Breed / Strain</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-new-flock-breed">
+                          <SelectValue placeholder="Select breed" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {profiles.filter((profile) => profile.type === form.watch('type')).map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>
+                            {profile.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="averageWeight"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Average Weight (grams)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      data-testid="input-new-flock-weight"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Day-old chicks are typically around 40-45g
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                data-testid="button-cancel-new-flock"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={createFlockMutation.isPending}
+                data-testid="button-save-new-flock"
+              >
+                {createFlockMutation.isPending ? 'Creating...' : 'Create Flock'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
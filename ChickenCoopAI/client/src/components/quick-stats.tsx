@@ -1,12 +1,25 @@
-import { Baby, Calendar, Weight, Heart } from "lucide-react";
-import type { Farm, Flock } from "@shared/schema";
+import { Baby, Calendar, Weight, Heart, Egg, Wheat } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import type { Farm, FlockWithAge } from "@shared/schema";
+import type { LayingPerformance } from "@shared/laying";
+import type { MortalityAnalysis } from "@shared/mortality";
 
 interface QuickStatsProps {
   farm: Farm;
-  flock?: Flock;
+  flock?: FlockWithAge;
 }
 
 export default function QuickStats({ farm, flock }: QuickStatsProps) {
+  const { data: laying } = useQuery<LayingPerformance>({
+    queryKey: ['/api/flocks', flock?.id, 'laying-performance'],
+    enabled: flock?.type === 'layer',
+  });
+
+  const { data: mortality } = useQuery<MortalityAnalysis>({
+    queryKey: ['/api/flocks', flock?.id, 'mortality', 'analysis'],
+    enabled: flock?.type === 'broiler',
+  });
+
   if (!flock) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -20,7 +33,10 @@ export default function QuickStats({ farm, flock }: QuickStatsProps) {
     );
   }
 
-  const mortalityRate = 2.1; // This would be calculated from actual data
+  if (flock.type === 'layer') {
+    return <LayerQuickStats flock={flock} laying={laying} />;
+  }
+
   const growthRate = 2.5; // This would be calculated from historical data
 
   return (
@@ -86,7 +102,7 @@ export default function QuickStats({ farm, flock }: QuickStatsProps) {
           <div>
             <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Mortality Rate</p>
             <p className="text-3xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-mortality-rate">
-              {mortalityRate}%
+              {mortality ? `${mortality.cumulativePercent}%` : '—'}
             </p>
           </div>
           <div className="p-3 bg-red-500 bg-opacity-10 rounded-full">
@@ -94,8 +110,119 @@ export default function QuickStats({ farm, flock }: QuickStatsProps) {
           </div>
         </div>
         <div className="mt-4 flex items-center">
-          <span className="text-sm text-green-600 font-medium">-0.3%</span>
-          <span className="text-sm text-gray-500 dark:text-gray-400 ml-2">vs industry avg</span>
+          {mortality?.weekOverWeek != null ? (
+            <>
+              {/* Percentage points of birds placed lost in the last 7 days vs the 7 before */}
+              <span
+                className={`text-sm font-medium ${mortality.weekOverWeek <= 0 ? 'text-green-600' : 'text-red-600'}`}
+                data-testid="text-mortality-week-change"
+              >
+                {mortality.weekOverWeek > 0 ? '+' : ''}{mortality.weekOverWeek}%
+              </span>
+              <span className="text-sm text-gray-500 dark:text-gray-400 ml-2">weekly losses vs last week</span>
+            </>
+          ) : (
+            <span className="text-sm text-gray-500 dark:text-gray-400">First week of the flock</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Layer flocks are judged on lay rather than growth
+function LayerQuickStats({ flock, laying }: { flock: FlockWithAge; laying?: LayingPerformance }) {
+  const ageWeeks = Math.floor(flock.currentAge / 7);
+  const inLay = !!laying?.target && laying.target.henDay > 0;
+  const henDayVsTarget = laying?.henDay != null && laying.target
+    ? Math.round((laying.henDay - laying.target.henDay) * 10) / 10
+    : null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Hens</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-total-hens">
+              {flock.chickCount.toLocaleString()}
+            </p>
+          </div>
+          <div className="p-3 bg-farm-green bg-opacity-10 rounded-full">
+            <Baby className="text-farm-green text-xl" />
+          </div>
+        </div>
+        <div className="mt-4 flex items-center">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            of {flock.initialChickCount.toLocaleString()} housed
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Age</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-age-weeks">
+              {ageWeeks} weeks
+            </p>
+          </div>
+          <div className="p-3 bg-farm-blue bg-opacity-10 rounded-full">
+            <Calendar className="text-farm-blue text-xl" />
+          </div>
+        </div>
+        <div className="mt-4 flex items-center">
+          <span className="text-sm text-gray-500 dark:text-gray-400">Stage:</span>
+          <span className="text-sm text-farm-blue font-medium ml-2" data-testid="text-laying-stage">
+            {inLay ? 'In lay' : 'Rearing'}
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Hen-Day Production</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-hen-day-production">
+              {laying?.henDay != null ? `${laying.henDay}%` : '—'}
+            </p>
+          </div>
+          <div className="p-3 bg-farm-orange bg-opacity-10 rounded-full">
+            <Egg className="text-farm-orange text-xl" />
+          </div>
+        </div>
+        <div className="mt-4 flex items-center">
+          {henDayVsTarget !== null ? (
+            <>
+              <span className={`text-sm font-medium ${henDayVsTarget >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {henDayVsTarget >= 0 ? '+' : ''}{henDayVsTarget}%
+              </span>
+              <span className="text-sm text-gray-500 dark:text-gray-400 ml-2">vs breed target</span>
+            </>
+          ) : (
+            <span className="text-sm text-gray-500 dark:text-gray-400">No collections recorded</span>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Feed per Dozen</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-feed-per-dozen">
+              {laying?.feedPerDozen != null ? `${laying.feedPerDozen} kg` : '—'}
+            </p>
+          </div>
+          <div className="p-3 bg-farm-green bg-opacity-10 rounded-full">
+            <Wheat className="text-farm-green text-xl" />
+          </div>
+        </div>
+        <div className="mt-4 flex items-center">
+          <span className="text-sm text-gray-500 dark:text-gray-400">Egg weight:</span>
+          <span className="text-sm text-gray-900 dark:text-gray-100 font-medium ml-2" data-testid="text-quick-egg-weight">
+            {laying?.eggWeight != null ? `${laying.eggWeight} g` : '—'}
+            {laying?.target ? ` (target ${laying.target.eggWeight} g)` : ''}
+          </span>
         </div>
       </div>
     </div>
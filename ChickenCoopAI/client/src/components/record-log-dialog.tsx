@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, History, Pencil, Trash2, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  CorrectedRecordType,
+  FeedWaterRecord,
+  FlockWithAge,
+  MortalityRecord,
+  RecordCorrection,
+} from "@shared/schema";
+import { getMortalityReasonLabel, MORTALITY_TYPE_LABELS, type MortalityReason, type MortalityType } from "@shared/mortality";
+
+interface RecordLogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  flock: FlockWithAge;
+  recordType: CorrectedRecordType;
+}
+
+// Feed/water and mortality records shown as one row shape
+interface LogRow {
+  id: string;
+  date: Date | string | null;
+  label: string;
+  note?: string;
+  value: number;
+  unit: string;
+  locked: boolean; // meter-derived water is corrected through the meter
+}
+
+const feedWaterRow = (record: FeedWaterRecord): LogRow => ({
+  id: record.id,
+  date: record.date,
+  label: record.type === 'feed' ? `Feed${record.diet ? ` (${record.diet})` : ''}` : 'Water',
+  value: record.amount,
+  unit: record.type === 'feed' ? 'kg' : 'L',
+  locked: !!record.meterReadingId,
+});
+
+const mortalityRow = (record: MortalityRecord, reasons: MortalityReason[]): LogRow => ({
+  id: record.id,
+  date: record.date,
+  label: `${MORTALITY_TYPE_LABELS[record.type]} · ${getMortalityReasonLabel(record, reasons)}`,
+  note: [record.necropsyFindings, record.vetReference && `Ref. ${record.vetReference}`].filter(Boolean).join(' · ') || undefined,
+  value: record.deathCount,
+  unit: 'birds',
+  locked: false,
+});
+
+const formatDate = (date: Date | string | null | undefined) =>
+  date ? new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : '—';
+
+// The corrected value as it was before the edit or deletion
+function describePrevious(correction: RecordCorrection, reasons: MortalityReason[]): string {
+  const previous = correction.previous;
+  if (correction.recordType === 'mortality') {
+    const record = previous as Pick<MortalityRecord, 'reasonCode' | 'cause'> & { type?: MortalityType };
+    return `${previous.deathCount} ${record.type ?? 'dead'} (${getMortalityReasonLabel(record, reasons)}) on ${formatDate(previous.date as string)}`;
+  }
+  const unit = previous.type === 'feed' ? 'kg' : 'L';
+  return `${previous.amount} ${unit} ${previous.type} on ${formatDate(previous.date as string)}`;
+}
+
+export default function RecordLogDialog({ open, onOpenChange, flock, recordType }: RecordLogDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const isMortality = recordType === 'mortality';
+  const endpoint = isMortality ? 'mortality-records' : 'feed-water-records';
+
+  const { data: feedWaterRecords = [] } = useQuery<FeedWaterRecord[]>({
+    queryKey: ['/api/flocks', flock.id, 'feed-water-records'],
+    enabled: open && !isMortality,
+  });
+
+  const { data: mortalityRecords = [] } = useQuery<MortalityRecord[]>({
+    queryKey: ['/api/flocks', flock.id, 'mortality-records'],
+    enabled: open && isMortality,
+  });
+
+  const { data: reasons = [] } = useQuery<MortalityReason[]>({
+    queryKey: ['/api/farms', flock.farmId, 'mortality-reasons'],
+    enabled: open && isMortality,
+  });
+
+  const { data: corrections = [] } = useQuery<RecordCorrection[]>({
+    queryKey: ['/api/flocks', flock.id, 'record-corrections'],
+    enabled: open,
+  });
+
+  const rows = isMortality
+    ? mortalityRecords.map(record => mortalityRow(record, reasons))
+    : feedWaterRecords.map(feedWaterRow);
+  const typeCorrections = corrections.filter(c => c.recordType === recordType);
+
+  // Every figure derived from the records (today, summary, FCR, silo stock, live count) may change
+  const invalidateRecords = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock.id] });
+    queryClient.invalidateQueries({ queryKey: ['/api/farms', flock.farmId, 'flocks'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/farms', flock.farmId, 'feed-silos'] });
+  };
+
+  const updateRecordMutation = useMutation({
+    mutationFn: async ({ id, value }: { id: string; value: number }) => {
+      const response = await apiRequest('PATCH', `/api/${endpoint}/${id}`, {
+        ...(isMortality ? { deathCount: value } : { amount: value }),
+        reason: reason || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRecords();
+      toast({
+        title: "Record Corrected",
+        description: "The previous value is kept in the correction history.",
+      });
+      setEditingId(null);
+      setReason("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Correct Record",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRecordMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/${endpoint}/${id}`, { reason: reason || undefined });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRecords();
+      toast({
+        title: "Record Deleted",
+        description: "The deleted record is kept in the correction history.",
+      });
+      setReason("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Delete Record",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (row: LogRow) => {
+    setEditingId(row.id);
+    setEditValue(String(row.value));
+  };
+
+  const saveEdit = (id: string) => {
+    const value = isMortality ? parseInt(editValue) : parseFloat(editValue);
+    if (value > 0) {
+      updateRecordMutation.mutate({ id, value });
+    }
+  };
+
+  const isClosed = flock.status === 'closed';
+  const isSaving = updateRecordMutation.isPending || deleteRecordMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid={`dialog-record-log-${recordType}`}>
+        <DialogHeader>
+          <DialogTitle>{isMortality ? 'Mortality' : 'Feed & Water'} Records for {flock.name}</DialogTitle>
+          <DialogDescription>
+            Correct or delete mistyped entries; the original values stay in the history below
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isClosed && (
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for the correction (optional)"
+            data-testid="input-correction-reason"
+          />
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>{isMortality ? 'Reason' : 'Type'}</TableHead>
+              <TableHead className="text-right">{isMortality ? 'Birds' : 'Amount'}</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-gray-500 dark:text-gray-400">
+                  No records yet
+                </TableCell>
+              </TableRow>
+            )}
+            {rows.map((row) => (
+              <TableRow key={row.id} data-testid={`row-record-${row.id}`}>
+                <TableCell>{formatDate(row.date)}</TableCell>
+                <TableCell>
+                  {row.label}
+                  {row.note && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{row.note}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {editingId === row.id ? (
+                    <Input
+                      type="number"
+                      min={isMortality ? "1" : "0"}
+                      step={isMortality ? "1" : "0.1"}
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                      className="w-24 ml-auto"
+                      data-testid={`input-edit-record-${row.id}`}
+                    />
+                  ) : (
+                    `${row.value.toLocaleString()} ${row.unit}`
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {editingId === row.id ? (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => saveEdit(row.id)}
+                        disabled={isSaving}
+                        data-testid={`button-save-record-${row.id}`}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingId(null)}
+                        data-testid={`button-cancel-edit-${row.id}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => startEditing(row)}
+                        disabled={isClosed || row.locked || isSaving}
+                        title={row.locked ? 'Derived from a water meter reading' : undefined}
+                        data-testid={`button-edit-record-${row.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteRecordMutation.mutate(row.id)}
+                        disabled={isClosed || row.locked || isSaving}
+                        className="text-red-600 hover:text-red-700"
+                        data-testid={`button-delete-record-${row.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {typeCorrections.length > 0 && (
+          <>
+            <Separator />
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 flex items-center">
+              <History className="mr-2 h-4 w-4" />
+              Correction History
+            </h3>
+            <ul className="space-y-2 text-sm" data-testid="list-record-corrections">
+              {typeCorrections.map((correction) => (
+                <li key={correction.id} className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <span className="font-medium text-gray-900 dark:text-gray-100">
+                    {correction.action === 'delete' ? 'Deleted' : 'Edited'} {formatDate(correction.createdAt)}
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {' '}— was {describePrevious(correction, reasons)}
+                    {correction.reason && ` · ${correction.reason}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+import { Scale, Plus } from "lucide-react";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { FlockWithAge, WeighSessionWithStats } from "@shared/schema";
+import { parseWeights } from "@shared/weighing";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface WeightSamplingProps {
+  flock?: FlockWithAge;
+}
+
+export default function WeightSampling({ flock }: WeightSamplingProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<'individual' | 'bulk'>('individual');
+  const [weightsInput, setWeightsInput] = useState("");
+  const [sampleCount, setSampleCount] = useState(0);
+  const [sampleTotal, setSampleTotal] = useState(0);
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: latest } = useQuery<WeighSessionWithStats | null>({
+    queryKey: ['/api/flocks', flock?.id, 'weigh-sessions', 'latest'],
+    enabled: !!flock?.id,
+  });
+
+  const weights = parseWeights(weightsInput);
+
+  const addSessionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/weigh-sessions', {
+        flockId: flock?.id,
+        ...(mode === 'individual'
+          ? { weights }
+          : { sampleCount, sampleTotal: sampleTotal * 1000 }),
+        date: new Date(`${date}T12:00:00`).toISOString(),
+      });
+      return response.json() as Promise<WeighSessionWithStats>;
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'weigh-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/flocks', flock?.id, 'performance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/farms', flock?.farmId, 'flocks'] });
+      toast({
+        title: "Weighing Recorded",
+        description: session.stats.cv !== null
+          ? `${session.stats.count} birds, mean ${session.stats.mean}g, CV ${session.stats.cv}%.`
+          : `${session.stats.count} birds, mean ${session.stats.mean}g.`,
+      });
+      setIsOpen(false);
+      setWeightsInput("");
+      setSampleCount(0);
+      setSampleTotal(0);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Record Weighing",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = mode === 'individual'
+    ? weights.length > 0
+    : sampleCount > 0 && sampleTotal > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) {
+      addSessionMutation.mutate();
+    }
+  };
+
+  if (!flock) {
+    return null;
+  }
+
+  // Broiler flocks are generally considered even below 10% CV
+  const cvColor = latest?.stats.cv == null
+    ? 'text-gray-900 dark:text-gray-100'
+    : latest.stats.cv <= 10 ? 'text-green-600' : latest.stats.cv <= 12 ? 'text-yellow-600' : 'text-red-600';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+          <Scale className="text-farm-orange mr-2" />
+          Weight Sampling
+        </h2>
+      </div>
+      <div className="p-6">
+        <div className="space-y-4">
+          {latest ? (
+            <>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <p className="text-xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-weighing-mean">
+                    {latest.stats.mean}g
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">Mean</p>
+                </div>
+                <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <p className={`text-xl font-bold ${cvColor}`} data-testid="text-weighing-cv">
+                    {latest.stats.cv !== null ? `${latest.stats.cv}%` : '—'}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">CV</p>
+                </div>
+                <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <p className="text-xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-weighing-uniformity">
+                    {latest.stats.uniformity !== null ? `${latest.stats.uniformity}%` : '—'}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">Uniformity ±10%</p>
+                </div>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Last weighed</span>
+                <span className="font-medium text-gray-900 dark:text-gray-100" data-testid="text-weighing-date">
+                  {new Date(latest.date!).toLocaleDateString()} · day {latest.age} · {latest.stats.count} birds
+                </span>
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400 text-center" data-testid="text-no-weighings">
+              No weigh sessions recorded
+            </p>
+          )}
+
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={flock.status === 'closed'}
+                data-testid="button-add-weighing"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Record Weighing
+              </Button>
+            </DialogTrigger>
+            <DialogContent data-testid="dialog-weighing">
+              <DialogHeader>
+                <DialogTitle>Record Weighing</DialogTitle>
+                <DialogDescription>
+                  Individual weights give CV% and uniformity; a bulk sample gives the mean only
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="weighingDate">Date</Label>
+                  <Input
+                    id="weighingDate"
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    data-testid="input-weighing-date"
+                  />
+                </div>
+                <Tabs value={mode} onValueChange={(value) => setMode(value as 'individual' | 'bulk')}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="individual" data-testid="tab-weighing-individual">Individual</TabsTrigger>
+                    <TabsTrigger value="bulk" data-testid="tab-weighing-bulk">Bulk Sample</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="individual">
+                    <Label htmlFor="weighingWeights">Bird Weights (g)</Label>
+                    <Textarea
+                      id="weighingWeights"
+                      rows={6}
+                      placeholder="Paste or type weights separated by commas, spaces or new lines"
+                      value={weightsInput}
+                      onChange={(e) => setWeightsInput(e.target.value)}
+                      data-testid="input-weighing-weights"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1" data-testid="text-weighing-parsed">
+                      {weights.length} weights entered
+                    </p>
+                  </TabsContent>
+                  <TabsContent value="bulk">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="weighingCount">Birds Weighed</Label>
+                        <Input
+                          id="weighingCount"
+                          type="number"
+                          min="1"
+                          value={sampleCount || ""}
+                          onChange={(e) => setSampleCount(parseInt(e.target.value) || 0)}
+                          data-testid="input-weighing-count"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="weighingTotal">Total Weight (kg)</Label>
+                        <Input
+                          id="weighingTotal"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={sampleTotal || ""}
+                          onChange={(e) => setSampleTotal(parseFloat(e.target.value) || 0)}
+                          data-testid="input-weighing-total"
+                        />
+                      </div>
+                    </div>
+                  </TabsContent>
+                </Tabs>
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsOpen(false)}
+                    data-testid="button-cancel-weighing"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={addSessionMutation.isPending || !canSubmit}
+                    data-testid="button-save-weighing"
+                  >
+                    {addSessionMutation.isPending ? 'Recording...' : 'Record Weighing'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import type { FeedSiloWithStock, FlockWithAge } from "@shared/schema";
+import { getDefaultBreed, type BreedProfile } from "@shared/breeds";
+import { forecastFeedRunOut } from "@/lib/calculations";
+import { FEED_ORDER_LEAD_DAYS } from "@/lib/constants";
+
+// Farm-wide feed on hand and when it runs out at the active flocks' breed intake
+export function useFeedForecast(farmId?: string) {
+  const { data: silos = [] } = useQuery<FeedSiloWithStock[]>({
+    queryKey: ['/api/farms', farmId, 'feed-silos'],
+    enabled: !!farmId,
+  });
+
+  const { data: flocks = [] } = useQuery<FlockWithAge[]>({
+    queryKey: ['/api/farms', farmId, 'flocks'],
+    enabled: !!farmId,
+  });
+
+  const { data: breeds = [] } = useQuery<BreedProfile[]>({
+    queryKey: ['/api/farms', farmId, 'breed-profiles'],
+    enabled: !!farmId,
+  });
+
+  const stock = silos.reduce((sum, silo) => sum + Math.max(0, silo.stock), 0);
+  const capacity = silos.reduce((sum, silo) => sum + silo.capacity, 0);
+  const forecast = forecastFeedRunOut(
+    stock,
+    flocks
+      .filter(flock => flock.status === 'active')
+      .map(flock => ({
+        chickCount: flock.chickCount,
+        currentAge: flock.currentAge,
+        breed: breeds.find(b => b.id === flock.breedId) ?? getDefaultBreed(flock.type),
+      })),
+  );
+
+  return {
+    silos,
+    stock: Math.round(stock),
+    capacity,
+    forecast,
+    isLow: silos.length > 0 && forecast.daysRemaining !== null && forecast.daysRemaining <= FEED_ORDER_LEAD_DAYS,
+  };
+}
@@ -1,50 +1,76 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Feather, RefreshCw, Settings } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+import { AlertTriangle, Dna, Feather, Flag, LineChart, Plus, RefreshCw, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useFeedForecast } from "@/hooks/use-feed-forecast";
 import QuickStats from "@/components/quick-stats";
 import EnvironmentalControls from "@/components/environmental-controls";
 import WeatherPanel from "@/components/weather-panel";
 import AIRecommendations from "@/components/ai-recommendations";
 import FeedWaterTracker from "@/components/feed-water-tracker";
+import FeedInventory from "@/components/feed-inventory";
 import GrowthProjections from "@/components/growth-projections";
 import DailyChecklist from "@/components/daily-checklist";
 import FarmSetupDialog from "@/components/farm-setup-dialog";
 import MortalityTracker from "@/components/mortality-tracker";
+import FlockInventory from "@/components/flock-inventory";
+import WeightSampling from "@/components/weight-sampling";
+import EggProductionTracker from "@/components/egg-production-tracker";
+import HealthProgram from "@/components/health-program";
 import EquipmentManagementDialog from "@/components/equipment-management-dialog";
 import FarmDetailsDialog from "@/components/farm-details-dialog";
+import NewFlockDialog from "@/components/new-flock-dialog";
+import FlockCloseOutDialog from "@/components/flock-close-out-dialog";
+import CycleHistory from "@/components/cycle-history";
+import BreedProfilesDialog from "@/components/breed-profiles-dialog";
+import type { Farm, FlockWithAge, Equipment, EnvironmentalReading } from "@shared/schema";
 
 export default function Dashboard() {
   const [equipmentDialogOpen, setEquipmentDialogOpen] = useState(false);
   const [farmDetailsDialogOpen, setFarmDetailsDialogOpen] = useState(false);
+  const [newFarmDialogOpen, setNewFarmDialogOpen] = useState(false);
+  const [newFlockDialogOpen, setNewFlockDialogOpen] = useState(false);
+  const [closeOutDialogOpen, setCloseOutDialogOpen] = useState(false);
+  const [breedDialogOpen, setBreedDialogOpen] = useState(false);
   const { toast } = useToast();
+  // Selection lives in the URL (/farms/:farmId/flocks/:flockId); without it
+  // the first farm and its first flock are shown.
+  const params = useParams<{ farmId?: string; flockId?: string }>();
+  const [, setLocation] = useLocation();
   
-  const { data: farms, isLoading: farmsLoading } = useQuery({
+  const { data: farms, isLoading: farmsLoading } = useQuery<Farm[]>({
     queryKey: ['/api/farms'],
   });
 
-  const { data: farm } = useQuery({
-    queryKey: ['/api/farms', farms?.[0]?.id],
-    enabled: !!farms?.[0]?.id,
-  });
+  const farm = farms?.find(f => f.id === params.farmId) ?? farms?.[0];
 
-  const { data: flocks } = useQuery({
+  const { data: flocks } = useQuery<FlockWithAge[]>({
     queryKey: ['/api/farms', farm?.id, 'flocks'],
     enabled: !!farm?.id,
   });
 
-  const { data: equipment } = useQuery({
+  const { data: equipment } = useQuery<Equipment[]>({
     queryKey: ['/api/farms', farm?.id, 'equipment'],
     enabled: !!farm?.id,
   });
 
-  const { data: environmentalData } = useQuery({
+  const { data: environmentalData } = useQuery<EnvironmentalReading>({
     queryKey: ['/api/farms', farm?.id, 'readings', 'latest'],
     enabled: !!farm?.id,
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
+  const feedStock = useFeedForecast(farm?.id);
+
   const currentDate = new Date().toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'short',
@@ -84,7 +110,12 @@ export default function Dashboard() {
     return <FarmSetupDialog />;
   }
 
-  const primaryFlock = flocks?.[0];
+  const primaryFlock = flocks?.find(f => f.id === params.flockId)
+    ?? flocks?.find(f => f.status === 'active')
+    ?? flocks?.[0];
+
+  const selectFarm = (farmId: string) => setLocation(`/farms/${farmId}`);
+  const selectFlock = (flockId: string) => setLocation(`/farms/${farm.id}/flocks/${flockId}`);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -134,11 +165,103 @@ export default function Dashboard() {
       </header>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Farm & Flock Selection */}
+        <div className="mb-6 flex flex-wrap items-center gap-3">
+          <Select value={farm.id} onValueChange={selectFarm}>
+            <SelectTrigger className="w-56" data-testid="select-farm">
+              <SelectValue placeholder="Select farm" />
+            </SelectTrigger>
+            <SelectContent>
+              {farms?.map((f) => (
+                <SelectItem key={f.id} value={f.id}>
+                  {f.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button 
+            variant="outline" 
+            size="sm"
+            onClick={() => setNewFarmDialogOpen(true)}
+            data-testid="button-new-farm"
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Farm
+          </Button>
+
+          <Select value={primaryFlock?.id ?? ""} onValueChange={selectFlock}>
+            <SelectTrigger className="w-56" data-testid="select-flock">
+              <SelectValue placeholder="No flocks" />
+            </SelectTrigger>
+            <SelectContent>
+              {flocks?.map((f) => (
+                <SelectItem key={f.id} value={f.id}>
+                  {f.name} {f.status === 'closed' ? '(closed)' : `(day ${f.currentAge})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button 
+            variant="outline" 
+            size="sm"
+            onClick={() => setNewFlockDialogOpen(true)}
+            data-testid="button-new-flock"
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Flock
+          </Button>
+          <Button 
+            variant="outline" 
+            size="sm"
+            onClick={() => setBreedDialogOpen(true)}
+            data-testid="button-breed-profiles"
+          >
+            <Dna className="mr-1 h-4 w-4" />
+            Breeds
+          </Button>
+          {primaryFlock && (
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={() => setLocation(`/farms/${farm.id}/flocks/${primaryFlock.id}/history`)}
+              data-testid="button-flock-history"
+            >
+              <LineChart className="mr-1 h-4 w-4" />
+              History
+            </Button>
+          )}
+          {primaryFlock?.status === 'active' && (
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={() => setCloseOutDialogOpen(true)}
+              data-testid="button-close-out"
+            >
+              <Flag className="mr-1 h-4 w-4" />
+              Close Out
+            </Button>
+          )}
+        </div>
+
         {/* Quick Stats */}
         <div className="mb-8">
           <QuickStats farm={farm} flock={primaryFlock} />
         </div>
 
+        {feedStock.isLow && (
+          <div
+            className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center"
+            data-testid="alert-feed-low"
+          >
+            <AlertTriangle className="text-red-600 mr-3 h-5 w-5" />
+            <p className="text-sm text-red-700 dark:text-red-300">
+              Feed stock runs out in about {feedStock.forecast.daysRemaining} days
+              {feedStock.forecast.runOutDate && ` (${feedStock.forecast.runOutDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })})`}.
+              Place a feed order now.
+            </p>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Environmental Controls */}
           <div className="lg:col-span-2 space-y-6">
@@ -155,7 +278,12 @@ export default function Dashboard() {
             <WeatherPanel farmId={farm.id} />
             <AIRecommendations farmId={farm.id} flock={primaryFlock} equipment={equipment || []} />
             <FeedWaterTracker flock={primaryFlock} />
+            <FeedInventory farmId={farm.id} />
             <MortalityTracker flock={primaryFlock} />
+            <EggProductionTracker flock={primaryFlock} />
+            <FlockInventory flock={primaryFlock} />
+            <WeightSampling flock={primaryFlock} />
+            <HealthProgram flock={primaryFlock} />
             <div className="text-xs text-gray-500 p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
               <h3 className="font-medium text-gray-700 dark:text-gray-300 mb-2">Farm Details</h3>
               <div className="space-y-2">
@@ -195,6 +323,10 @@ export default function Dashboard() {
           <DailyChecklist farmId={farm.id} />
           <GrowthProjections flock={primaryFlock} farmId={farm.id} />
         </div>
+
+        <div className="mt-6">
+          <CycleHistory farmId={farm.id} />
+        </div>
       </div>
 
       {/* Equipment Management Dialog */}
@@ -209,11 +341,39 @@ export default function Dashboard() {
       {/* Farm Details Dialog */}
       {farm && (
         <FarmDetailsDialog 
+          key={farm.id}
           open={farmDetailsDialogOpen}
           onOpenChange={setFarmDetailsDialogOpen}
           farm={farm}
         />
       )}
+
+      {/* New Farm / Flock Dialogs */}
+      <FarmSetupDialog
+        open={newFarmDialogOpen}
+        onOpenChange={setNewFarmDialogOpen}
+        onComplete={(farmId, flockId) => setLocation(`/farms/${farmId}/flocks/${flockId}`)}
+      />
+      <NewFlockDialog
+        open={newFlockDialogOpen}
+        onOpenChange={setNewFlockDialogOpen}
+        farm={farm}
+        onCreated={(flock) => selectFlock(flock.id)}
+      />
+      <BreedProfilesDialog
+        open={breedDialogOpen}
+        onOpenChange={setBreedDialogOpen}
+        farm={farm}
+        flock={primaryFlock}
+      />
+      {primaryFlock?.status === 'active' && (
+        <FlockCloseOutDialog
+          key={primaryFlock.id}
+          open={closeOutDialogOpen}
+          onOpenChange={setCloseOutDialogOpen}
+          flock={primaryFlock}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FlockWithAge } from "@shared/schema";
+import type {
+  ConsumptionHistoryBucket,
+  HistoryPage,
+  MortalityHistoryBucket,
+  ReadingHistoryBucket,
+} from "@shared/history";
+
+const intakeConfig = {
+  feedPerBird: { label: "Feed (g/bird)", color: "var(--chart-1)" },
+  waterPerBird: { label: "Water (ml/bird)", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const mortalityConfig = {
+  cumulativePercent: { label: "Cumulative mortality (%)", color: "var(--chart-5)" },
+  cumulativeCullsPercent: { label: "Cumulative culls (%)", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const temperatureConfig = {
+  insideTemp: { label: "Inside (°C)", color: "var(--chart-1)" },
+  outsideTemp: { label: "Outside (°C)", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const humidityConfig = {
+  insideHumidity: { label: "Inside (%)", color: "var(--chart-2)" },
+  outsideHumidity: { label: "Outside (%)", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+// Hourly periods are "YYYY-MM-DDTHH:00"; the axis only needs month-day and hour
+const formatPeriod = (period: string) => period.slice(5).replace("T", " ");
+
+function HistoryChart({ title, config, data, testId }: {
+  title: string;
+  config: ChartConfig;
+  data: { period: string }[];
+  testId: string;
+}) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{title}</h2>
+      </div>
+      <div className="p-6" data-testid={testId}>
+        {data.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No records in this cycle yet</p>
+        ) : (
+          <ChartContainer config={config} className="h-64 w-full aspect-auto">
+            <LineChart data={data} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="period" tickFormatter={formatPeriod} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {Object.keys(config).map((key) => (
+                <Line
+                  key={key}
+                  dataKey={key}
+                  type="monotone"
+                  stroke={`var(--color-${key})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function FlockHistory() {
+  const [readingInterval, setReadingInterval] = useState<"day" | "hour">("day");
+  const params = useParams<{ farmId: string; flockId: string }>();
+  const [, setLocation] = useLocation();
+
+  const { data: flocks } = useQuery<FlockWithAge[]>({
+    queryKey: ['/api/farms', params.farmId, 'flocks'],
+  });
+
+  const flock = flocks?.find(f => f.id === params.flockId);
+
+  // The whole cycle: placement to harvest, or to now while the flock is active
+  const range = flock
+    ? new URLSearchParams({
+        from: new Date(flock.batchDate).toISOString(),
+        ...(flock.harvestDate ? { to: new Date(flock.harvestDate).toISOString() } : {}),
+        limit: "1000",
+      }).toString()
+    : "";
+
+  const { data: consumption } = useQuery<HistoryPage<ConsumptionHistoryBucket>>({
+    queryKey: ['/api/flocks', params.flockId, `history/consumption?${range}`],
+    enabled: !!flock,
+  });
+
+  const { data: mortality } = useQuery<HistoryPage<MortalityHistoryBucket>>({
+    queryKey: ['/api/flocks', params.flockId, `history/mortality?${range}`],
+    enabled: !!flock,
+  });
+
+  const { data: readings } = useQuery<HistoryPage<ReadingHistoryBucket>>({
+    queryKey: ['/api/farms', params.farmId, `history/readings?${range}&interval=${readingInterval}`],
+    enabled: !!flock,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="mb-6 flex flex-wrap items-center gap-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setLocation(`/farms/${params.farmId}/flocks/${params.flockId}`)}
+            data-testid="button-back-dashboard"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Dashboard
+          </Button>
+          <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-history-title">
+            {flock ? `${flock.name} History` : 'Flock History'}
+          </h1>
+          {flock && (
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {new Date(flock.batchDate).toLocaleDateString()} –{' '}
+              {flock.harvestDate ? new Date(flock.harvestDate).toLocaleDateString() : 'today'}
+            </span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <HistoryChart
+            title="Daily Intake per Bird"
+            config={intakeConfig}
+            data={consumption?.items ?? []}
+            testId="chart-intake"
+          />
+          <HistoryChart
+            title="Cumulative Mortality"
+            config={mortalityConfig}
+            data={mortality?.items ?? []}
+            testId="chart-mortality"
+          />
+          <div className="lg:col-span-2 flex justify-end">
+            <Select value={readingInterval} onValueChange={(value) => setReadingInterval(value as "day" | "hour")}>
+              <SelectTrigger className="w-40" data-testid="select-reading-interval">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Daily average</SelectItem>
+                <SelectItem value="hour">Hourly average</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <HistoryChart
+            title="Temperature"
+            config={temperatureConfig}
+            data={readings?.items ?? []}
+            testId="chart-temperature"
+          />
+          <HistoryChart
+            title="Humidity"
+            config={humidityConfig}
+            data={readings?.items ?? []}
+            testId="chart-humidity"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
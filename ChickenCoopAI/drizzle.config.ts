@@ -4,11 +4,13 @@ if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
 
+const url = process.env.DATABASE_URL;
+
 export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL,
-  },
+  ...(url.startsWith("pglite://")
+    ? { driver: "pglite", dbCredentials: { url: url.slice("pglite://".length) } }
+    : { dbCredentials: { url } }),
 });
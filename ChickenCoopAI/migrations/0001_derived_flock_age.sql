@@ -0,0 +1,2 @@
+ALTER TABLE "farms" ADD COLUMN "timezone" text DEFAULT 'UTC' NOT NULL;--> statement-breakpoint
+ALTER TABLE "flocks" DROP COLUMN "current_age";
\ No newline at end of file
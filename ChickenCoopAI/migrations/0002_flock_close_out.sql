@@ -0,0 +1,5 @@
+ALTER TABLE "flocks" ADD COLUMN "status" text DEFAULT 'active' NOT NULL;--> statement-breakpoint
+ALTER TABLE "flocks" ADD COLUMN "harvest_date" timestamp;--> statement-breakpoint
+ALTER TABLE "flocks" ADD COLUMN "birds_delivered" integer;--> statement-breakpoint
+ALTER TABLE "flocks" ADD COLUMN "total_live_weight" real;--> statement-breakpoint
+ALTER TABLE "flocks" ADD COLUMN "condemnations" integer;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "bird_sales" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flock_id" varchar,
+	"head_count" integer NOT NULL,
+	"total_weight" real NOT NULL,
+	"buyer" text,
+	"price_per_kg" real,
+	"date" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "bird_sales" ADD CONSTRAINT "bird_sales_flock_id_flocks_id_fk" FOREIGN KEY ("flock_id") REFERENCES "public"."flocks"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
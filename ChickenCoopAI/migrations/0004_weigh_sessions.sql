@@ -0,0 +1,11 @@
+CREATE TABLE "weigh_sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flock_id" varchar,
+	"weights" json,
+	"sample_count" integer NOT NULL,
+	"sample_total" real NOT NULL,
+	"date" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "weigh_sessions" ADD CONSTRAINT "weigh_sessions_flock_id_flocks_id_fk" FOREIGN KEY ("flock_id") REFERENCES "public"."flocks"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "breed_profiles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"farm_id" varchar,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"curve" json NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "flocks" ADD COLUMN "breed_id" varchar DEFAULT 'ross-308' NOT NULL;--> statement-breakpoint
+ALTER TABLE "breed_profiles" ADD CONSTRAINT "breed_profiles_farm_id_farms_id_fk" FOREIGN KEY ("farm_id") REFERENCES "public"."farms"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "egg_production_records" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flock_id" varchar,
+	"total_eggs" integer NOT NULL,
+	"cracked_eggs" integer DEFAULT 0 NOT NULL,
+	"dirty_eggs" integer DEFAULT 0 NOT NULL,
+	"floor_eggs" integer DEFAULT 0 NOT NULL,
+	"egg_weight" real,
+	"hen_count" integer NOT NULL,
+	"date" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "breed_profiles" ADD COLUMN "laying_curve" json;--> statement-breakpoint
+ALTER TABLE "flocks" ADD COLUMN "type" text DEFAULT 'broiler' NOT NULL;--> statement-breakpoint
+ALTER TABLE "egg_production_records" ADD CONSTRAINT "egg_production_records_flock_id_flocks_id_fk" FOREIGN KEY ("flock_id") REFERENCES "public"."flocks"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
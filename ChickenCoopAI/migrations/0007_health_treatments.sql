@@ -0,0 +1,15 @@
+CREATE TABLE "health_treatments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flock_id" varchar,
+	"kind" text NOT NULL,
+	"product" text NOT NULL,
+	"route" text NOT NULL,
+	"dose" text NOT NULL,
+	"planned_age" integer NOT NULL,
+	"withdrawal_days" integer DEFAULT 0 NOT NULL,
+	"administered_at" timestamp,
+	"notes" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "health_treatments" ADD CONSTRAINT "health_treatments_flock_id_flocks_id_fk" FOREIGN KEY ("flock_id") REFERENCES "public"."flocks"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
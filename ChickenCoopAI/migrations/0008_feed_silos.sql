@@ -0,0 +1,23 @@
+CREATE TABLE "feed_deliveries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"silo_id" varchar,
+	"amount" real NOT NULL,
+	"feed_type" text NOT NULL,
+	"supplier" text,
+	"invoice_price" real,
+	"date" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "feed_silos" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"farm_id" varchar,
+	"name" text NOT NULL,
+	"capacity" real NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "feed_water_records" ADD COLUMN "silo_id" varchar;--> statement-breakpoint
+ALTER TABLE "feed_deliveries" ADD CONSTRAINT "feed_deliveries_silo_id_feed_silos_id_fk" FOREIGN KEY ("silo_id") REFERENCES "public"."feed_silos"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "feed_silos" ADD CONSTRAINT "feed_silos_farm_id_farms_id_fk" FOREIGN KEY ("farm_id") REFERENCES "public"."farms"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "feed_water_records" ADD CONSTRAINT "feed_water_records_silo_id_feed_silos_id_fk" FOREIGN KEY ("silo_id") REFERENCES "public"."feed_silos"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
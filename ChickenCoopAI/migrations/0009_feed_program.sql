@@ -0,0 +1,2 @@
+ALTER TABLE "feed_water_records" ADD COLUMN "diet" text;--> statement-breakpoint
+ALTER TABLE "flocks" ADD COLUMN "feed_program" json;
\ No newline at end of file
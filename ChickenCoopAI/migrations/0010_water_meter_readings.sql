@@ -0,0 +1,14 @@
+CREATE TABLE "water_meter_readings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flock_id" varchar,
+	"reading" real NOT NULL,
+	"consumption" real DEFAULT 0 NOT NULL,
+	"event" text DEFAULT 'baseline' NOT NULL,
+	"missing_days" integer DEFAULT 0 NOT NULL,
+	"date" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "feed_water_records" ADD COLUMN "meter_reading_id" varchar;--> statement-breakpoint
+ALTER TABLE "water_meter_readings" ADD CONSTRAINT "water_meter_readings_flock_id_flocks_id_fk" FOREIGN KEY ("flock_id") REFERENCES "public"."flocks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "feed_water_records" ADD CONSTRAINT "feed_water_records_meter_reading_id_water_meter_readings_id_fk" FOREIGN KEY ("meter_reading_id") REFERENCES "public"."water_meter_readings"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "record_corrections" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flock_id" varchar,
+	"record_type" text NOT NULL,
+	"record_id" varchar NOT NULL,
+	"action" text NOT NULL,
+	"previous" json NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "record_corrections" ADD CONSTRAINT "record_corrections_flock_id_flocks_id_fk" FOREIGN KEY ("flock_id") REFERENCES "public"."flocks"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
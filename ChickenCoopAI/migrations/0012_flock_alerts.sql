@@ -0,0 +1,11 @@
+CREATE TABLE "flock_alerts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flock_id" varchar,
+	"date" text NOT NULL,
+	"severity" text NOT NULL,
+	"signals" json NOT NULL,
+	"dismissed_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "flock_alerts" ADD CONSTRAINT "flock_alerts_flock_id_flocks_id_fk" FOREIGN KEY ("flock_id") REFERENCES "public"."flocks"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "mortality_reasons" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"farm_id" varchar,
+	"label" text NOT NULL,
+	"type" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "mortality_records" ADD COLUMN "type" text DEFAULT 'dead' NOT NULL;--> statement-breakpoint
+ALTER TABLE "mortality_records" ADD COLUMN "reason_code" text;--> statement-breakpoint
+ALTER TABLE "mortality_records" ADD COLUMN "necropsy_findings" text;--> statement-breakpoint
+ALTER TABLE "mortality_records" ADD COLUMN "vet_reference" text;--> statement-breakpoint
+ALTER TABLE "mortality_reasons" ADD CONSTRAINT "mortality_reasons_farm_id_farms_id_fk" FOREIGN KEY ("farm_id") REFERENCES "public"."farms"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+UPDATE "mortality_records" SET "type" = 'culled' WHERE "cause" = 'Culling';--> statement-breakpoint
+UPDATE "mortality_records" SET "reason_code" = 'heat-stress' WHERE "cause" = 'Heat stress';--> statement-breakpoint
+UPDATE "mortality_records" SET "reason_code" = 'chilling' WHERE "cause" = 'Cold stress';
@@ -0,0 +1 @@
+ALTER TABLE "farms" ADD COLUMN "day_start" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "farms" ADD COLUMN "wall_u_value" real DEFAULT 0.6 NOT NULL;--> statement-breakpoint
+ALTER TABLE "farms" ADD COLUMN "roof_u_value" real DEFAULT 0.4 NOT NULL;
\ No newline at end of file
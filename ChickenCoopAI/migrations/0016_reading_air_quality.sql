@@ -0,0 +1,4 @@
+ALTER TABLE "environmental_readings" ADD COLUMN "co2" real;--> statement-breakpoint
+ALTER TABLE "environmental_readings" ADD COLUMN "ammonia" real;--> statement-breakpoint
+ALTER TABLE "environmental_readings" ADD COLUMN "pm25" real;--> statement-breakpoint
+ALTER TABLE "environmental_readings" ADD COLUMN "pm10" real;
\ No newline at end of file
@@ -0,0 +1,45 @@
+import path from "path";
+import { is } from "drizzle-orm";
+import { drizzle as drizzlePg, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate as migratePg } from "drizzle-orm/node-postgres/migrator";
+import { drizzle as drizzlePglite, PgliteDatabase } from "drizzle-orm/pglite";
+import { migrate as migratePglite } from "drizzle-orm/pglite/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { PGlite } from "@electric-sql/pglite";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Checked-in SQL generated by `npm run db:generate`. Resolves to the project
+// root both from server/ (tsx) and from dist/ (bundled build).
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// DATABASE_URL is either a regular postgres:// connection string or, for local
+// development without a server, an embedded PGlite database:
+//   pglite://memory        -> in-memory, discarded on exit
+//   pglite://./data/pglite -> persisted in the given directory
+export function createDatabase(url: string): Database {
+  if (url.startsWith("pglite://")) {
+    const dataDir = url.slice("pglite://".length);
+    const client = dataDir === "memory" ? new PGlite() : new PGlite(dataDir);
+    return drizzlePglite(client, { schema });
+  }
+
+  const pool = new pg.Pool({ connectionString: url });
+  return drizzlePg(pool, { schema });
+}
+
+// Applies any migrations not yet recorded in the database. Migrations only
+// ever add to the schema, so this is safe to run on every start.
+export async function migrateDatabase(database: Database): Promise<void> {
+  if (is(database, PgliteDatabase)) {
+    await migratePglite(database, { migrationsFolder });
+  } else {
+    await migratePg(database as NodePgDatabase<typeof schema>, { migrationsFolder });
+  }
+}
+
+export const db = process.env.DATABASE_URL
+  ? createDatabase(process.env.DATABASE_URL)
+  : undefined;
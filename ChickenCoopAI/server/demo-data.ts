@@ -0,0 +1,53 @@
+import type { IStorage } from "./storage";
+import type { Farm } from "@shared/schema";
+
+// Sample farm used by `npm run seed -- demo` and by the in-memory storage so
+// a fresh development server has something to show.
+export async function seedDemoFarm(storage: IStorage): Promise<Farm> {
+  const farm = await storage.createFarm({
+    name: "Main Farm",
+    length: 24,
+    width: 12,
+    height: 3.5,
+  });
+
+  await storage.createFlock({
+    farmId: farm.id,
+    name: "Batch A",
+    chickCount: 1250,
+    initialChickCount: 1300,
+    averageWeight: 485,
+    batchDate: new Date(Date.now() - 18 * 24 * 60 * 60 * 1000),
+  });
+
+  const equipmentData = [
+    { type: 'fan', name: 'Fan 1', specification: { diameter: 120, power: 2.8 } },
+    { type: 'fan', name: 'Fan 2', specification: { diameter: 100, power: 2.1 } },
+    { type: 'heater', name: 'Heater 1', specification: { power: 15 } },
+    { type: 'heater', name: 'Heater 2', specification: { power: 12 } },
+    { type: 'inlet', name: 'Air Inlet System', specification: { surface: 2.4 } },
+  ];
+
+  for (const eq of equipmentData) {
+    await storage.createEquipment({
+      farmId: farm.id,
+      type: eq.type,
+      name: eq.name,
+      specification: eq.specification,
+      isActive: eq.type === 'fan' || eq.type === 'heater',
+      currentSetting: eq.type === 'fan' ? 75 : eq.type === 'heater' ? 45 : 30,
+    });
+  }
+
+  await storage.createEnvironmentalReading({
+    farmId: farm.id,
+    insideTemp: 28,
+    insideHumidity: 65,
+    outsideTemp: 22,
+    outsideHumidity: 45,
+    windSpeed: 12,
+    pressure: 1013,
+  });
+
+  return farm;
+}
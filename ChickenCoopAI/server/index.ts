@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { db, migrateDatabase } from "./db";
+import { storage } from "./storage";
+import { seedDemoFarm } from "./demo-data";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +40,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (db) {
+    await migrateDatabase(db);
+  } else {
+    // In-memory storage starts empty on every run; give it the demo farm
+    await seedDemoFarm(storage);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,14 @@
+import { db, migrateDatabase } from "./db";
+
+// Usage: npm run db:migrate
+// Applies pending migrations from ./migrations to DATABASE_URL.
+(async () => {
+  if (!db) {
+    console.error("DATABASE_URL must be set to run migrations");
+    process.exit(1);
+  }
+
+  await migrateDatabase(db);
+  console.log("Migrations applied");
+  process.exit(0);
+})();
@@ -0,0 +1,222 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { getDefaultBreed } from "@shared/breeds";
+import { DEFAULT_OUTSIDE_CONDITIONS, calculateEnvironment } from "@shared/environment";
+import { addDays, getFlockAge, getLocalDate } from "@shared/time";
+import type { Farm, Flock, FlockAlert } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+let server: Server;
+let baseUrl: string;
+
+const request = async (method: string, path: string, body?: unknown) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+};
+const post = (path: string, body: unknown) => request("POST", path, body);
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe("POST /api/calculate-environment", () => {
+  let farm: Farm;
+  let flock: Flock;
+
+  before(async () => {
+    farm = (await post("/api/farms", { name: "Test", length: 100, width: 12, height: 3 })).body;
+    for (const equipment of [
+      { type: "fan", name: "Fan 1", specification: { diameter: 130 }, currentSetting: 20, isActive: true },
+      { type: "heater", name: "Heater 1", specification: { power: 80 }, currentSetting: 50, isActive: true },
+    ]) {
+      assert.equal((await post("/api/equipment", { ...equipment, farmId: farm.id })).status, 201);
+    }
+    flock = (await post("/api/flocks", {
+      farmId: farm.id,
+      name: "Batch 1",
+      chickCount: 20000,
+      initialChickCount: 20000,
+      averageWeight: 1200,
+      batchDate: new Date(Date.now() - 21 * 24 * 60 * 60 * 1000).toISOString(),
+    })).body;
+  });
+
+  it("matches the shared calculation for the flock's age and breed", async () => {
+    const { status, body } = await post("/api/calculate-environment", { farmId: farm.id, flockId: flock.id });
+    assert.equal(status, 200);
+
+    const expected = calculateEnvironment({
+      house: farm,
+      equipment: await storage.getEquipmentByFarm(farm.id),
+      birds: { count: flock.chickCount, weight: flock.averageWeight / 1000 },
+      ...DEFAULT_OUTSIDE_CONDITIONS,
+      age: getFlockAge(flock.batchDate, farm.timezone, new Date(), farm.dayStart),
+      breed: getDefaultBreed(),
+    });
+    assert.deepEqual(body, JSON.parse(JSON.stringify(expected)));
+  });
+
+  it("uses the given age and default breed without a flock", async () => {
+    const { body } = await post("/api/calculate-environment", { farmId: farm.id, flockAge: 10, outsideTemp: 0 });
+
+    const expected = calculateEnvironment({
+      house: farm,
+      equipment: await storage.getEquipmentByFarm(farm.id),
+      ...DEFAULT_OUTSIDE_CONDITIONS,
+      outsideTemp: 0,
+      age: 10,
+      breed: getDefaultBreed(),
+    });
+    assert.deepEqual(body, JSON.parse(JSON.stringify(expected)));
+  });
+
+  it("rejects an unknown farm", async () => {
+    const { status } = await post("/api/calculate-environment", { farmId: "missing" });
+    assert.equal(status, 404);
+  });
+});
+
+describe("POST /api/feed-water-records", () => {
+  let farm: Farm;
+  let flock: Flock;
+  const silos: string[] = [];
+
+  before(async () => {
+    farm = (await post("/api/farms", { name: "Feed test", length: 100, width: 12, height: 3 })).body;
+    flock = (await post("/api/flocks", {
+      farmId: farm.id,
+      name: "Batch 1",
+      chickCount: 20000,
+      initialChickCount: 20000,
+      averageWeight: 1200,
+      batchDate: new Date().toISOString(),
+    })).body;
+    for (const [name, delivered] of [["Silo 1", 600], ["Silo 2", 400]] as const) {
+      const silo = (await post("/api/feed-silos", { farmId: farm.id, name, capacity: 10000 })).body;
+      await post("/api/feed-deliveries", { siloId: silo.id, amount: delivered, feedType: "Starter" });
+      silos.push(silo.id);
+    }
+  });
+
+  const stock = async () => {
+    const { body } = await request("GET", `/api/farms/${farm.id}/feed-silos`);
+    return Object.fromEntries(body.map((silo: { id: string; stock: number }) => [silo.id, silo.stock]));
+  };
+
+  it("splits a draw no single silo can cover across the farm's silos", async () => {
+    const { status, body } = await post("/api/feed-water-records", { flockId: flock.id, type: "feed", amount: 800 });
+    assert.equal(status, 201);
+    assert.deepEqual(
+      body.map((record: { siloId: string; amount: number }) => [record.siloId, record.amount]),
+      [[silos[0], 600], [silos[1], 200]],
+    );
+    assert.deepEqual(await stock(), { [silos[0]]: 0, [silos[1]]: 200 });
+  });
+
+  it("rejects a draw larger than the farm's total stock", async () => {
+    const { status } = await post("/api/feed-water-records", { flockId: flock.id, type: "feed", amount: 250 });
+    assert.equal(status, 409);
+    assert.deepEqual(await stock(), { [silos[0]]: 0, [silos[1]]: 200 });
+  });
+});
+
+describe("POST /api/flocks/:id/alerts/evaluate", () => {
+  let flock: Flock;
+  const yesterday = addDays(getLocalDate(new Date()), -1);
+
+  before(async () => {
+    const farm: Farm = (await post("/api/farms", { name: "Alert test", length: 100, width: 12, height: 3 })).body;
+    flock = (await post("/api/flocks", {
+      farmId: farm.id,
+      name: "Batch 1",
+      chickCount: 20000,
+      initialChickCount: 20000,
+      averageWeight: 400,
+      batchDate: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
+    })).body;
+  });
+
+  it("judges completed days only and clears an alert once its signal stops", async () => {
+    const record = (await post("/api/feed-water-records", {
+      flockId: flock.id, type: "feed", amount: 50, date: `${yesterday}T12:00:00Z`,
+    })).body;
+    await post("/api/feed-water-records", { flockId: flock.id, type: "feed", amount: 50 });
+
+    const raised = (await post(`/api/flocks/${flock.id}/alerts/evaluate`, {})).body;
+    assert.deepEqual(raised.map((alert: FlockAlert) => [alert.date, alert.signals.map(s => s.kind)]), [
+      [yesterday, ["feed_below_target"]],
+    ]);
+
+    await request("PATCH", `/api/feed-water-records/${record.id}`, { amount: 5000, reason: "Typo" });
+    assert.deepEqual((await post(`/api/flocks/${flock.id}/alerts/evaluate`, {})).body, []);
+    assert.deepEqual(await storage.getFlockAlerts(flock.id), []);
+  });
+});
+
+describe("POST /api/egg-production-records", () => {
+  it("stamps a back-dated collection with the hens alive that day", async () => {
+    const farm: Farm = (await post("/api/farms", { name: "Layer test", length: 100, width: 12, height: 3 })).body;
+    const flock: Flock = (await post("/api/flocks", {
+      farmId: farm.id,
+      name: "Layers",
+      type: "layer",
+      chickCount: 10000,
+      initialChickCount: 10000,
+      averageWeight: 1800,
+      batchDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+    })).body;
+    const today = getLocalDate(new Date());
+    await post("/api/mortality-records", { flockId: flock.id, deathCount: 100, date: `${addDays(today, -2)}T12:00:00Z` });
+    await post("/api/mortality-records", { flockId: flock.id, deathCount: 50 });
+
+    const backDated = await post("/api/egg-production-records", {
+      flockId: flock.id, totalEggs: 9000, date: `${addDays(today, -3)}T12:00:00Z`,
+    });
+    assert.equal(backDated.status, 201);
+    assert.equal(backDated.body.henCount, 10000);
+
+    const yesterday = await post("/api/egg-production-records", {
+      flockId: flock.id, totalEggs: 9000, date: `${addDays(today, -1)}T12:00:00Z`,
+    });
+    assert.equal(yesterday.body.henCount, 9900);
+    assert.equal((await post("/api/egg-production-records", { flockId: flock.id, totalEggs: 9000 })).body.henCount, 9850);
+  });
+});
+
+describe("PATCH /api/mortality-records/:id", () => {
+  it("rejects an edit that takes more birds than are alive", async () => {
+    const farm: Farm = (await post("/api/farms", { name: "Mortality test", length: 100, width: 12, height: 3 })).body;
+    const flock: Flock = (await post("/api/flocks", {
+      farmId: farm.id,
+      name: "Batch 1",
+      chickCount: 100,
+      initialChickCount: 100,
+      averageWeight: 42,
+      batchDate: new Date().toISOString(),
+    })).body;
+    const record = (await post("/api/mortality-records", { flockId: flock.id, deathCount: 10 })).body;
+
+    const tooMany = await request("PATCH", `/api/mortality-records/${record.id}`, { deathCount: 101, reason: "Recount" });
+    assert.equal(tooMany.status, 400);
+    assert.equal((await storage.getFlock(flock.id))?.chickCount, 90);
+    assert.deepEqual(await storage.getRecordCorrections(flock.id), []);
+
+    const allOfThem = await request("PATCH", `/api/mortality-records/${record.id}`, { deathCount: 100, reason: "Recount" });
+    assert.equal(allOfThem.status, 200);
+    assert.equal((await storage.getFlock(flock.id))?.chickCount, 0);
+  });
+});
@@ -4,12 +4,283 @@ import { storage } from "./storage";
 import { 
   insertFarmSchema, 
   insertFlockSchema, 
+  updateFlockSchema,
+  insertBreedProfileSchema,
   insertEquipmentSchema,
   insertFeedWaterSchema,
+  updateFeedWaterSchema,
+  deleteRecordSchema,
+  insertFeedSiloSchema,
+  insertFeedDeliverySchema,
+  insertWaterMeterReadingSchema,
   insertEnvironmentalReadingSchema,
   insertMortalitySchema,
-  updateEquipmentSchema 
+  updateMortalitySchema,
+  insertMortalityReasonSchema,
+  insertBirdSaleSchema,
+  insertEggProductionSchema,
+  insertHealthTreatmentSchema,
+  administerTreatmentSchema,
+  insertWeighSessionSchema,
+  updateEquipmentSchema,
+  closeOutFlockSchema,
+  type Farm,
+  type Flock,
+  type FlockWithAge,
+  type FlockFeedProgram,
+  type BreedProfileRecord,
+  type MortalityReasonRecord,
+  type FeedSilo,
+  type FeedSiloWithStock,
+  type HealthTreatment,
+  type HealthTreatmentWithStatus,
+  type WeighSession,
+  type WeighSessionWithStats
 } from "@shared/schema";
+import { addDays, getFarmDayRange, getFlockAge, getLocalDate } from "@shared/time";
+import { analyzeWaterIntake, deriveMeterConsumption, splitMeterConsumption } from "@shared/water";
+import {
+  analyzeMortality,
+  BUILT_IN_MORTALITY_REASONS,
+  type MortalityReason,
+  type MortalityType
+} from "@shared/mortality";
+import { detectAnomalies, getAlertSeverity } from "@shared/anomalies";
+import {
+  aggregateByPeriod,
+  filterPeriods,
+  getPeriod,
+  historyQuerySchema,
+  paginate,
+  type ConsumptionHistoryBucket,
+  type HistoryInterval,
+  type MortalityHistoryBucket
+} from "@shared/history";
+import {
+  calculateCloseOutResults,
+  calculateFlockPerformance,
+  calculateFlockSummary,
+  type CloseOutResults
+} from "@shared/production";
+import { calculateWeighingStats } from "@shared/weighing";
+import { calculateLayingPerformance } from "@shared/laying";
+import { findBlockingWithdrawal, getTreatmentStatus, getWithdrawalEnd } from "@shared/health";
+import { DEFAULT_FEED_PROGRAM, getFeedProgramStatus, summarizeFeedByPhase } from "@shared/feed-program";
+import { BUILT_IN_BREEDS, getBreedTargets, getDefaultBreed, type BreedProfile } from "@shared/breeds";
+import {
+  calculateEnvironment,
+  calculateEnvironmentSchema,
+  DEFAULT_OUTSIDE_CONDITIONS
+} from "@shared/environment";
+
+// Closed flocks stop ageing on their harvest date
+function withAge(flock: Flock, farm?: Farm): FlockWithAge {
+  return {
+    ...flock,
+    currentAge: getFlockAge(flock.batchDate, farm?.timezone, flock.harvestDate ?? new Date(), farm?.dayStart),
+  };
+}
+
+async function withAgeFromFarm(flock: Flock): Promise<FlockWithAge> {
+  const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+  return withAge(flock, farm);
+}
+
+// Thinned birds count towards the flock's output alongside the final catch
+async function getCloseOutResults(flock: Flock, farm?: Farm): Promise<CloseOutResults> {
+  const feedRecords = await storage.getFeedWaterRecords(flock.id, 'feed');
+  const sales = await storage.getBirdSales(flock.id);
+  const { dead, culled } = calculateFlockSummary(flock, await storage.getMortalityRecords(flock.id), sales);
+  return calculateCloseOutResults({
+    placed: flock.initialChickCount,
+    delivered: (flock.birdsDelivered ?? 0) + sales.reduce((sum, s) => sum + s.headCount, 0),
+    totalLiveWeight: (flock.totalLiveWeight ?? 0) + sales.reduce((sum, s) => sum + s.totalWeight, 0),
+    condemnations: flock.condemnations ?? 0,
+    totalFeed: feedRecords.reduce((sum, r) => sum + r.amount, 0),
+    ageAtHarvest: getFlockAge(flock.batchDate, farm?.timezone, flock.harvestDate ?? new Date(), farm?.dayStart),
+    dead,
+    culled,
+  });
+}
+
+function toBreedProfile(record: BreedProfileRecord): BreedProfile {
+  return {
+    id: record.id,
+    name: record.name,
+    type: record.type,
+    curve: record.curve,
+    layingCurve: record.layingCurve,
+    builtIn: false,
+  };
+}
+
+// Custom profiles are only visible to the farm that imported them
+async function findBreedProfile(breedId: string, farmId?: string | null): Promise<BreedProfile | undefined> {
+  const builtIn = BUILT_IN_BREEDS.find(b => b.id === breedId);
+  if (builtIn) return builtIn;
+  const record = await storage.getBreedProfile(breedId);
+  return record && record.farmId === farmId ? toBreedProfile(record) : undefined;
+}
+
+async function getFlockBreedProfile(flock: Flock): Promise<BreedProfile> {
+  return (await findBreedProfile(flock.breedId, flock.farmId)) ?? getDefaultBreed(flock.type);
+}
+
+// Progress is measured in feed eaten per bird placed
+async function getFlockFeedProgram(flock: Flock, farm?: Farm): Promise<FlockFeedProgram> {
+  const program = flock.feedProgram ?? DEFAULT_FEED_PROGRAM;
+  const feedRecords = await storage.getFeedWaterRecords(flock.id, 'feed');
+  const totalFeed = feedRecords.reduce((sum, r) => sum + r.amount, 0);
+  const status = getFeedProgramStatus(
+    program,
+    await getFlockBreedProfile(flock),
+    withAge(flock, farm).currentAge,
+    flock.initialChickCount > 0 ? totalFeed / flock.initialChickCount : 0,
+  );
+  return {
+    ...status,
+    program,
+    nextChangeover: status.nextChangeover && {
+      ...status.nextChangeover,
+      date: addDays(getLocalDate(flock.batchDate, farm?.timezone, farm?.dayStart), status.nextChangeover.age),
+    },
+  };
+}
+
+async function getFeedUsageByPhase(flock: Flock) {
+  const feedRecords = await storage.getFeedWaterRecords(flock.id, 'feed');
+  return summarizeFeedByPhase(feedRecords, flock.feedProgram ?? DEFAULT_FEED_PROGRAM, flock.initialChickCount);
+}
+
+// Weigh sessions are returned with their statistics and the flock age on the day
+function withWeighingStats(session: WeighSession, flock: Flock, farm?: Farm): WeighSessionWithStats {
+  return {
+    ...session,
+    age: getFlockAge(flock.batchDate, farm?.timezone, session.date ?? new Date(), farm?.dayStart),
+    stats: calculateWeighingStats(session),
+  };
+}
+
+function withTreatmentStatus(treatment: HealthTreatment, flock: Flock, farm?: Farm): HealthTreatmentWithStatus {
+  return {
+    ...treatment,
+    status: getTreatmentStatus(treatment, withAge(flock, farm).currentAge, farm?.timezone, new Date(), farm?.dayStart),
+    withdrawalEnd: getWithdrawalEnd(treatment, farm?.timezone, farm?.dayStart),
+  };
+}
+
+async function withSiloStock(silo: FeedSilo): Promise<FeedSiloWithStock> {
+  const { delivered, used } = await storage.getFeedSiloTotals(silo.id);
+  return { ...silo, delivered, used, stock: Math.round((delivered - used) * 10) / 10 };
+}
+
+// Feed records without an explicit silo are drawn from the farm's bins,
+// fullest first, moving on to the next bin when one runs out. Returns null
+// when the farm does not track silos, undefined when the farm's total stock
+// is short of the amount.
+async function planFeedDraw(
+  farmId: string,
+  amount: number,
+): Promise<{ silo: FeedSiloWithStock; amount: number }[] | null | undefined> {
+  const silos = await Promise.all((await storage.getFeedSilos(farmId)).map(withSiloStock));
+  if (silos.length === 0) {
+    return null;
+  }
+  const draws: { silo: FeedSiloWithStock; amount: number }[] = [];
+  let remaining = amount;
+  for (const silo of silos.filter(silo => silo.stock > 0).sort((a, b) => b.stock - a.stock)) {
+    if (remaining <= 0) break;
+    const draw = Math.round(Math.min(remaining, silo.stock) * 10) / 10;
+    draws.push({ silo, amount: draw });
+    remaining = Math.round((remaining - draw) * 10) / 10;
+  }
+  return remaining > 0 ? undefined : draws;
+}
+
+// Live birds at the end of each period: placed minus deaths and sales up to then
+async function getBirdsByPeriod(flock: Flock, interval: HistoryInterval, timeZone?: string, dayStart?: number) {
+  const losses = [
+    ...(await storage.getMortalityRecords(flock.id)).map(r => ({ date: r.date, count: r.deathCount })),
+    ...(await storage.getBirdSales(flock.id)).map(s => ({ date: s.date, count: s.headCount })),
+  ].map(loss => ({ period: getPeriod(loss.date ?? new Date(), interval, timeZone, dayStart), count: loss.count }));
+  return (period: string) => flock.initialChickCount - losses
+    .filter(loss => loss.period <= period)
+    .reduce((sum, loss) => sum + loss.count, 0);
+}
+
+// Alerts stay on the dashboard for this many farm days unless dismissed
+const ACTIVE_ALERT_DAYS = 3;
+
+// Runs the anomaly engine over the completed farm days still on the dashboard,
+// so a day half-way through its feeding is never judged against a full day's
+// target. Each day's alert is replaced when records are corrected, and removed
+// once none of its signals fire.
+// Culls are the farmer's own decision and do not count towards a mortality spike.
+async function evaluateFlockAlerts(flock: Flock, farm?: Farm) {
+  const timeZone = farm?.timezone ?? "UTC";
+  const dayStart = farm?.dayStart ?? 0;
+  const today = getLocalDate(new Date(), timeZone, dayStart);
+  const days = Array.from({ length: ACTIVE_ALERT_DAYS }, (_, i) => addDays(today, -(i + 1)));
+  const placedOn = getLocalDate(flock.batchDate, timeZone, dayStart);
+
+  const feedWater = await storage.getFeedWaterRecords(flock.id);
+  const mortality = (await storage.getMortalityRecords(flock.id)).filter(r => r.type === 'dead');
+  const [from] = getFarmDayRange(days[days.length - 1], timeZone, dayStart);
+  const readings = farm ? await storage.getReadingsInRange(farm.id, from) : [];
+  const breed = await getFlockBreedProfile(flock);
+  const birdsAt = await getBirdsByPeriod(flock, "day", timeZone, dayStart);
+
+  for (const date of days.filter(day => day >= placedOn)) {
+    const signals = detectAnomalies({
+      date,
+      feedWater,
+      mortality,
+      readings,
+      birds: birdsAt(date),
+      age: getFlockAge(flock.batchDate, timeZone, getFarmDayRange(date, timeZone, dayStart)[0], dayStart),
+      breed,
+      timeZone,
+      dayStart,
+    });
+    if (signals.length > 0) {
+      await storage.saveFlockAlert({ flockId: flock.id, date, severity: getAlertSeverity(signals), signals });
+    } else {
+      await storage.deleteFlockAlert(flock.id, date);
+    }
+  }
+
+  const since = days[days.length - 1];
+  return (await storage.getFlockAlerts(flock.id)).filter(alert => !alert.dismissedAt && alert.date >= since);
+}
+
+// Records cannot be added to a flock once its cycle has been closed out
+async function isFlockClosed(flockId?: string | null): Promise<boolean> {
+  if (!flockId) return false;
+  const flock = await storage.getFlock(flockId);
+  return flock?.status === 'closed';
+}
+
+function toMortalityReason(record: MortalityReasonRecord): MortalityReason {
+  return { code: record.id, label: record.label, type: record.type, builtIn: false };
+}
+
+async function getMortalityReasons(farmId?: string | null): Promise<MortalityReason[]> {
+  const custom = farmId ? await storage.getMortalityReasons(farmId) : [];
+  return [...BUILT_IN_MORTALITY_REASONS, ...custom.map(toMortalityReason)];
+}
+
+// A reason code must come from the flock's farm catalogue and match the record type,
+// so a cull cannot be filed under a cause of death and vice versa
+async function isValidMortalityReason(
+  flockId: string | null | undefined,
+  type: MortalityType,
+  reasonCode: string | null | undefined,
+): Promise<boolean> {
+  if (!reasonCode) return true;
+  const flock = flockId ? await storage.getFlock(flockId) : undefined;
+  const reasons = await getMortalityReasons(flock?.farmId);
+  return reasons.some(r => r.code === reasonCode && r.type === type);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Farm routes
@@ -60,23 +331,226 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Flock routes
   app.get("/api/farms/:farmId/flocks", async (req, res) => {
     try {
+      const farm = await storage.getFarm(req.params.farmId);
       const flocks = await storage.getFlocksByFarm(req.params.farmId);
-      res.json(flocks);
+      res.json(flocks.map(flock => withAge(flock, farm)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch flocks" });
     }
   });
 
+  app.get("/api/flocks/:id", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      res.json(await withAgeFromFarm(flock));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch flock" });
+    }
+  });
+
+  app.patch("/api/flocks/:id", async (req, res) => {
+    try {
+      const updateData = updateFlockSchema.parse(req.body);
+      const existing = await storage.getFlock(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      if (existing.status === 'closed') {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      if (updateData.breedId) {
+        const breed = await findBreedProfile(updateData.breedId, existing.farmId);
+        if (!breed) {
+          return res.status(400).json({ message: "Unknown breed profile" });
+        }
+        if (breed.type !== existing.type) {
+          return res.status(400).json({ message: `Breed profile is not for ${existing.type} flocks` });
+        }
+      }
+      const flock = await storage.updateFlock(existing.id, updateData);
+      res.json(await withAgeFromFarm(flock!));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid flock data" });
+    }
+  });
+
+  app.get("/api/flocks/:id/breed-profile", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      res.json(await getFlockBreedProfile(flock));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch breed profile" });
+    }
+  });
+
+  app.get("/api/flocks/:id/feed-program", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      res.json(await getFlockFeedProgram(flock, farm));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch feed program" });
+    }
+  });
+
+  // Feed used and its cost per diet of the program
+  app.get("/api/flocks/:id/feed-usage", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      res.json(await getFeedUsageByPhase(flock));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch feed usage" });
+    }
+  });
+
+  // Age of the flock on a given date (ISO date or timestamp), defaulting to now
+  app.get("/api/flocks/:id/age", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const date = typeof req.query.date === "string" ? new Date(req.query.date) : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      res.json({ date: date.toISOString(), age: getFlockAge(flock.batchDate, farm?.timezone, date, farm?.dayStart) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate flock age" });
+    }
+  });
+
+  app.post("/api/flocks/:id/close-out", async (req, res) => {
+    try {
+      const closeOut = closeOutFlockSchema.parse(req.body);
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      if (flock.status === 'closed') {
+        return res.status(409).json({ message: "Flock is already closed" });
+      }
+      if (closeOut.harvestDate < flock.batchDate) {
+        return res.status(400).json({ message: "Harvest date is before placement" });
+      }
+      if (closeOut.birdsDelivered > flock.chickCount) {
+        return res.status(400).json({ message: "More birds delivered than are alive in the flock" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const harvestDay = getLocalDate(closeOut.harvestDate, farm?.timezone, farm?.dayStart);
+      if (harvestDay > getLocalDate(new Date(), farm?.timezone, farm?.dayStart)) {
+        return res.status(400).json({ message: "Harvest date is in the future" });
+      }
+      const blocking = findBlockingWithdrawal(
+        await storage.getHealthTreatments(flock.id),
+        closeOut.harvestDate,
+        farm?.timezone,
+        farm?.dayStart,
+      );
+      if (blocking) {
+        return res.status(400).json({
+          message: `Harvest date falls inside the withdrawal period of ${blocking.treatment.product}; birds may be slaughtered from ${blocking.withdrawalEnd}`,
+        });
+      }
+
+      const closed = await storage.updateFlock(flock.id, { ...closeOut, status: 'closed' });
+      res.json({
+        flock: withAge(closed!, farm),
+        results: await getCloseOutResults(closed!, farm),
+      });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid close-out data" });
+    }
+  });
+
+  app.get("/api/flocks/:id/close-out", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock || flock.status !== 'closed') {
+        return res.status(404).json({ message: "No close-out for this flock" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      res.json({ flock: withAge(flock, farm), results: await getCloseOutResults(flock, farm) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch close-out results" });
+    }
+  });
+
+  // Closed cycles for a farm, most recent harvest first
+  app.get("/api/farms/:farmId/cycles", async (req, res) => {
+    try {
+      const farm = await storage.getFarm(req.params.farmId);
+      const closed = (await storage.getFlocksByFarm(req.params.farmId))
+        .filter(flock => flock.status === 'closed')
+        .sort((a, b) => new Date(b.harvestDate!).getTime() - new Date(a.harvestDate!).getTime());
+      const cycles = await Promise.all(closed.map(async flock => ({
+        flock: withAge(flock, farm),
+        results: await getCloseOutResults(flock, farm),
+        feedByPhase: await getFeedUsageByPhase(flock),
+      })));
+      res.json(cycles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cycle history" });
+    }
+  });
+
   app.post("/api/flocks", async (req, res) => {
     try {
       const flockData = insertFlockSchema.parse(req.body);
-      const flock = await storage.createFlock(flockData);
-      res.status(201).json(flock);
+      // The flock type follows its breed when only one of the two is given
+      const breed = flockData.breedId
+        ? await findBreedProfile(flockData.breedId, flockData.farmId)
+        : getDefaultBreed(flockData.type);
+      if (!breed) {
+        return res.status(400).json({ message: "Unknown breed profile" });
+      }
+      if (flockData.type && breed.type !== flockData.type) {
+        return res.status(400).json({ message: `Breed profile is not for ${flockData.type} flocks` });
+      }
+      const flock = await storage.createFlock({ ...flockData, type: breed.type, breedId: breed.id });
+      res.status(201).json(await withAgeFromFarm(flock));
     } catch (error) {
       res.status(400).json({ message: "Invalid flock data" });
     }
   });
 
+  // Breed profile routes
+  app.get("/api/farms/:farmId/breed-profiles", async (req, res) => {
+    try {
+      const custom = await storage.getBreedProfiles(req.params.farmId);
+      res.json([...BUILT_IN_BREEDS, ...custom.map(toBreedProfile)]);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch breed profiles" });
+    }
+  });
+
+  app.post("/api/farms/:farmId/breed-profiles", async (req, res) => {
+    try {
+      const profileData = insertBreedProfileSchema.parse({ ...req.body, farmId: req.params.farmId });
+      const farm = await storage.getFarm(req.params.farmId);
+      if (!farm) {
+        return res.status(404).json({ message: "Farm not found" });
+      }
+      const profile = await storage.createBreedProfile(profileData);
+      res.status(201).json(toBreedProfile(profile));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid breed profile data" });
+    }
+  });
+
   // Equipment routes
   app.get("/api/farms/:farmId/equipment", async (req, res) => {
     try {
@@ -195,11 +669,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         flockId: req.body.flockId,
         type: req.body.type,
         amount: parseFloat(req.body.amount),
+        siloId: req.body.siloId,
+        diet: req.body.diet,
         date: req.body.date || new Date().toISOString(),
       });
       
       console.log('Parsed record data:', recordData);
-      
+
+      if (await isFlockClosed(recordData.flockId)) {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+
+      const flock = recordData.flockId ? await storage.getFlock(recordData.flockId) : undefined;
+      let draws: Awaited<ReturnType<typeof planFeedDraw>> = null;
+      if (recordData.type !== 'feed') {
+        recordData.siloId = null;
+        recordData.diet = null;
+      } else if (recordData.siloId) {
+        const silo = await storage.getFeedSilo(recordData.siloId);
+        if (!silo || silo.farmId !== flock?.farmId) {
+          return res.status(404).json({ message: "Feed silo not found" });
+        }
+        // Feed cannot come out of a bin that does not hold it
+        const { stock } = await withSiloStock(silo);
+        if (stock < recordData.amount) {
+          return res.status(409).json({ message: `Only ${Math.max(0, stock)} kg of feed left in ${silo.name}` });
+        }
+      } else if (flock?.farmId) {
+        draws = await planFeedDraw(flock.farmId, recordData.amount);
+        if (draws === undefined) {
+          return res.status(409).json({ message: `Farm feed stock is short of ${recordData.amount} kg; record a delivery first` });
+        }
+      }
+
+      // Untagged feed is booked against the diet the program prescribes today
+      if (recordData.type === 'feed' && !recordData.diet && flock) {
+        const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+        recordData.diet = (await getFlockFeedProgram(flock, farm)).diet;
+      }
+
+      // A draw spread over several bins is booked as one record per silo, and
+      // the response lists them all
+      if (draws && draws.length > 1) {
+        const records = [];
+        for (const draw of draws) {
+          records.push(await storage.createFeedWaterRecord({ ...recordData, siloId: draw.silo.id, amount: draw.amount }));
+        }
+        return res.status(201).json(records);
+      }
+      if (draws?.length) {
+        recordData.siloId = draws[0].silo.id;
+      }
+
       const record = await storage.createFeedWaterRecord(recordData);
       res.status(201).json(record);
     } catch (error) {
@@ -211,19 +732,378 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/flocks/:flockId/feed-water-records", async (req, res) => {
+    try {
+      const type = req.query.type === 'feed' || req.query.type === 'water' ? req.query.type : undefined;
+      const records = await storage.getFeedWaterRecords(req.params.flockId, type);
+      res.json(records);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch feed/water records" });
+    }
+  });
+
+  // Corrections keep the previous values in the flock's audit trail
+  app.patch("/api/feed-water-records/:id", async (req, res) => {
+    try {
+      const updateData = updateFeedWaterSchema.parse(req.body);
+      const existing = await storage.getFeedWaterRecord(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Feed/water record not found" });
+      }
+      if (await isFlockClosed(existing.flockId)) {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      if (existing.meterReadingId) {
+        return res.status(409).json({ message: "Water derived from a meter reading cannot be edited" });
+      }
+      const silo = existing.siloId ? await storage.getFeedSilo(existing.siloId) : undefined;
+      if (silo && updateData.amount !== undefined && updateData.amount > existing.amount) {
+        const { stock } = await withSiloStock(silo);
+        if (stock < updateData.amount - existing.amount) {
+          return res.status(409).json({ message: `Only ${Math.max(0, stock)} kg of feed left in ${silo.name}` });
+        }
+      }
+      const record = await storage.updateFeedWaterRecord(existing.id, updateData);
+      res.json(record);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid feed/water record data" });
+    }
+  });
+
+  app.delete("/api/feed-water-records/:id", async (req, res) => {
+    try {
+      const { reason } = deleteRecordSchema.parse(req.body ?? {});
+      const existing = await storage.getFeedWaterRecord(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Feed/water record not found" });
+      }
+      if (await isFlockClosed(existing.flockId)) {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      if (existing.meterReadingId) {
+        return res.status(409).json({ message: "Water derived from a meter reading cannot be deleted" });
+      }
+      await storage.deleteFeedWaterRecord(existing.id, reason);
+      res.json({ message: "Feed/water record deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete feed/water record" });
+    }
+  });
+
+  app.get("/api/flocks/:flockId/record-corrections", async (req, res) => {
+    try {
+      const corrections = await storage.getRecordCorrections(req.params.flockId);
+      res.json(corrections);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch record corrections" });
+    }
+  });
+
+  // History routes: ?from=&to=&interval=raw|hour|day&limit=&offset=
+  app.get("/api/flocks/:flockId/history/consumption", async (req, res) => {
+    try {
+      const query = historyQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid history query" });
+      }
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const { interval } = query.data;
+      const records = await storage.getFeedWaterRecords(flock.id);
+      const birdsAt = await getBirdsByPeriod(flock, interval, farm?.timezone, farm?.dayStart);
+      const buckets: ConsumptionHistoryBucket[] = aggregateByPeriod(
+        records.map(r => ({
+          date: r.date ?? new Date(),
+          values: { feed: r.type === 'feed' ? r.amount : null, water: r.type === 'water' ? r.amount : null },
+        })),
+        ['feed', 'water'] as const,
+        'sum',
+        interval,
+        farm?.timezone,
+        farm?.dayStart,
+      ).map(bucket => {
+        const birds = birdsAt(bucket.period);
+        return {
+          ...bucket,
+          birds,
+          feedPerBird: bucket.feed !== null && birds > 0 ? Math.round((bucket.feed / birds) * 1000) : null,
+          waterPerBird: bucket.water !== null && birds > 0 ? Math.round((bucket.water / birds) * 1000) : null,
+        };
+      });
+      res.json(paginate(filterPeriods(buckets, query.data, farm?.timezone, farm?.dayStart), query.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch consumption history" });
+    }
+  });
+
+  app.get("/api/flocks/:flockId/history/mortality", async (req, res) => {
+    try {
+      const query = historyQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid history query" });
+      }
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const records = await storage.getMortalityRecords(flock.id);
+      const percentOfPlaced = (count: number) => flock.initialChickCount > 0
+        ? Math.round((count / flock.initialChickCount) * 10000) / 100
+        : 0;
+      let cumulative = 0;
+      let cumulativeCulls = 0;
+      const buckets: MortalityHistoryBucket[] = aggregateByPeriod(
+        records.map(r => ({
+          date: r.date ?? new Date(),
+          values: {
+            deaths: r.type === 'dead' ? r.deathCount : null,
+            culls: r.type === 'culled' ? r.deathCount : null,
+          },
+        })),
+        ['deaths', 'culls'] as const,
+        'sum',
+        query.data.interval,
+        farm?.timezone,
+        farm?.dayStart,
+      ).map(bucket => {
+        cumulative += bucket.deaths ?? 0;
+        cumulativeCulls += bucket.culls ?? 0;
+        return {
+          ...bucket,
+          cumulative,
+          cumulativePercent: percentOfPlaced(cumulative),
+          cumulativeCulls,
+          cumulativeCullsPercent: percentOfPlaced(cumulativeCulls),
+        };
+      });
+      res.json(paginate(filterPeriods(buckets, query.data, farm?.timezone, farm?.dayStart), query.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mortality history" });
+    }
+  });
+
+  app.get("/api/farms/:farmId/history/readings", async (req, res) => {
+    try {
+      const query = historyQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid history query" });
+      }
+      const farm = await storage.getFarm(req.params.farmId);
+      if (!farm) {
+        return res.status(404).json({ message: "Farm not found" });
+      }
+      const readings = await storage.getReadingsInRange(farm.id, query.data.from, query.data.to);
+      const buckets = aggregateByPeriod(
+        readings.map(r => ({
+          date: r.timestamp ?? new Date(),
+          values: {
+            insideTemp: r.insideTemp,
+            insideHumidity: r.insideHumidity,
+            outsideTemp: r.outsideTemp,
+            outsideHumidity: r.outsideHumidity,
+          },
+        })),
+        ['insideTemp', 'insideHumidity', 'outsideTemp', 'outsideHumidity'] as const,
+        'mean',
+        query.data.interval,
+        farm.timezone,
+        farm.dayStart,
+      );
+      res.json(paginate(buckets, query.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reading history" });
+    }
+  });
+
+  // Water meter routes
+  app.get("/api/flocks/:flockId/water-meter-readings", async (req, res) => {
+    try {
+      const readings = await storage.getWaterMeterReadings(req.params.flockId);
+      res.json(readings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch water meter readings" });
+    }
+  });
+
+  // Consumption since the previous reading is spread evenly over the days it covers
+  app.post("/api/water-meter-readings", async (req, res) => {
+    try {
+      const readingData = insertWaterMeterReadingSchema.parse(req.body);
+      const flock = readingData.flockId ? await storage.getFlock(readingData.flockId) : undefined;
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      if (flock.status === 'closed') {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+
+      const date = readingData.date ? new Date(readingData.date) : new Date();
+      const [previous] = await storage.getWaterMeterReadings(flock.id);
+      if (previous && date < previous.date!) {
+        return res.status(400).json({ message: "Meter readings must be entered in date order" });
+      }
+
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const { consumption, event } = deriveMeterConsumption(previous?.reading ?? null, readingData.reading);
+      const days = previous
+        ? Math.max(1, getFlockAge(previous.date!, farm?.timezone, date, farm?.dayStart))
+        : 0;
+      // Days with nothing drunk are still booked, as a dry line is worth seeing
+      const dailyWater = splitMeterConsumption(consumption, days).reverse().map((amount, i) => ({
+        amount,
+        date: new Date(date.getTime() - i * 24 * 60 * 60 * 1000),
+      }));
+
+      const reading = await storage.createWaterMeterReading(
+        { ...readingData, date: date.toISOString(), consumption, event, missingDays: Math.max(0, days - 1) },
+        dailyWater,
+      );
+      res.status(201).json(reading);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid water meter reading" });
+    }
+  });
+
+  // Daily water and feed intake with a warning on a sharp drop in drinking.
+  // Today is still filling in, so only completed farm days are analysed.
+  app.get("/api/flocks/:flockId/water-intake", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const [todayStart] = getFarmDayRange(getLocalDate(new Date(), farm?.timezone, farm?.dayStart), farm?.timezone, farm?.dayStart);
+      const records = (await storage.getFeedWaterRecords(flock.id)).filter(r => r.date && r.date < todayStart);
+      const birdsAt = await getBirdsByPeriod(flock, "day", farm?.timezone, farm?.dayStart);
+      res.json(analyzeWaterIntake(records, birdsAt, farm?.timezone, farm?.dayStart));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch water intake" });
+    }
+  });
+
+  // Feed silo routes
+  app.get("/api/farms/:farmId/feed-silos", async (req, res) => {
+    try {
+      const silos = await storage.getFeedSilos(req.params.farmId);
+      res.json(await Promise.all(silos.map(withSiloStock)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch feed silos" });
+    }
+  });
+
+  app.post("/api/feed-silos", async (req, res) => {
+    try {
+      const siloData = insertFeedSiloSchema.parse(req.body);
+      const silo = await storage.createFeedSilo(siloData);
+      res.status(201).json(await withSiloStock(silo));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid feed silo data" });
+    }
+  });
+
+  app.get("/api/feed-silos/:id/deliveries", async (req, res) => {
+    try {
+      const deliveries = await storage.getFeedDeliveries(req.params.id);
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch feed deliveries" });
+    }
+  });
+
+  app.post("/api/feed-deliveries", async (req, res) => {
+    try {
+      const deliveryData = insertFeedDeliverySchema.parse(req.body);
+      const silo = deliveryData.siloId ? await storage.getFeedSilo(deliveryData.siloId) : undefined;
+      if (!silo) {
+        return res.status(404).json({ message: "Feed silo not found" });
+      }
+      const { stock } = await withSiloStock(silo);
+      const freeSpace = Math.max(0, silo.capacity - stock);
+      if (deliveryData.amount > freeSpace) {
+        return res.status(400).json({
+          message: `Delivery exceeds the free space in ${silo.name} (${Math.round(freeSpace)} kg)`,
+        });
+      }
+      const delivery = await storage.createFeedDelivery(deliveryData);
+      res.status(201).json(delivery);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid feed delivery data" });
+    }
+  });
+
   // Mortality routes
   app.get("/api/flocks/:flockId/mortality/today", async (req, res) => {
     try {
-      const mortality = await storage.getTodaysMortality(req.params.flockId);
-      res.json({ mortality });
+      const { dead, culled } = await storage.getTodaysMortality(req.params.flockId);
+      res.json({ mortality: dead, culled });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch mortality data" });
     }
   });
 
+  app.get("/api/farms/:farmId/mortality-reasons", async (req, res) => {
+    try {
+      res.json(await getMortalityReasons(req.params.farmId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mortality reasons" });
+    }
+  });
+
+  app.post("/api/farms/:farmId/mortality-reasons", async (req, res) => {
+    try {
+      const reasonData = insertMortalityReasonSchema.parse({ ...req.body, farmId: req.params.farmId });
+      const farm = await storage.getFarm(req.params.farmId);
+      if (!farm) {
+        return res.status(404).json({ message: "Farm not found" });
+      }
+      const reason = await storage.createMortalityReason(reasonData);
+      res.status(201).json(toMortalityReason(reason));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid mortality reason data" });
+    }
+  });
+
+  // Daily and weekly curves against the breed-type standard, and losses by reason
+  app.get("/api/flocks/:flockId/mortality/analysis", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      res.json(analyzeMortality({
+        records: await storage.getMortalityRecords(flock.id),
+        reasons: await getMortalityReasons(flock.farmId),
+        placed: flock.initialChickCount,
+        batchDate: flock.batchDate,
+        type: flock.type,
+        timeZone: farm?.timezone,
+        dayStart: farm?.dayStart,
+        now: flock.harvestDate ?? new Date(),
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mortality analysis" });
+    }
+  });
+
   app.post("/api/mortality-records", async (req, res) => {
     try {
       const recordData = insertMortalitySchema.parse(req.body);
+      if (await isFlockClosed(recordData.flockId)) {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      if (!(await isValidMortalityReason(recordData.flockId, recordData.type, recordData.reasonCode))) {
+        return res.status(400).json({ message: "Unknown mortality reason for this record type" });
+      }
+      const flock = recordData.flockId ? await storage.getFlock(recordData.flockId) : undefined;
+      if (flock && recordData.deathCount > flock.chickCount) {
+        return res.status(400).json({ message: "Cannot record more losses than birds alive in the flock" });
+      }
       const record = await storage.createMortalityRecord(recordData);
       res.status(201).json(record);
     } catch (error) {
@@ -231,115 +1111,390 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI Calculations endpoint
-  app.post("/api/calculate-environment", async (req, res) => {
+  app.get("/api/flocks/:flockId/mortality-records", async (req, res) => {
     try {
-      const { farmId, outsideTemp, outsideHumidity, windSpeed } = req.body;
-      
-      const farm = await storage.getFarm(farmId);
-      const equipment = await storage.getEquipmentByFarm(farmId);
-      
+      const records = await storage.getMortalityRecords(req.params.flockId);
+      res.json(records);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mortality records" });
+    }
+  });
+
+  app.patch("/api/mortality-records/:id", async (req, res) => {
+    try {
+      const updateData = updateMortalitySchema.parse(req.body);
+      const existing = await storage.getMortalityRecord(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Mortality record not found" });
+      }
+      if (await isFlockClosed(existing.flockId)) {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      const reasonCode = updateData.reasonCode !== undefined ? updateData.reasonCode : existing.reasonCode;
+      if (!(await isValidMortalityReason(existing.flockId, updateData.type ?? existing.type, reasonCode))) {
+        return res.status(400).json({ message: "Unknown mortality reason for this record type" });
+      }
+      // A raised count must come out of the birds still alive, or the edit
+      // would be logged in full while the live count only drops to zero
+      const flock = existing.flockId ? await storage.getFlock(existing.flockId) : undefined;
+      if (flock && updateData.deathCount !== undefined && updateData.deathCount - existing.deathCount > flock.chickCount) {
+        return res.status(400).json({ message: "Cannot record more losses than birds alive in the flock" });
+      }
+      const record = await storage.updateMortalityRecord(existing.id, updateData);
+      res.json(record);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid mortality record data" });
+    }
+  });
+
+  app.delete("/api/mortality-records/:id", async (req, res) => {
+    try {
+      const { reason } = deleteRecordSchema.parse(req.body ?? {});
+      const existing = await storage.getMortalityRecord(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Mortality record not found" });
+      }
+      if (await isFlockClosed(existing.flockId)) {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      await storage.deleteMortalityRecord(existing.id, reason);
+      res.json({ message: "Mortality record deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete mortality record" });
+    }
+  });
+
+  // Anomaly alert routes
+  app.get("/api/flocks/:flockId/alerts", async (req, res) => {
+    try {
+      const alerts = await storage.getFlockAlerts(req.params.flockId);
+      res.json(alerts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  // Checks today's series and returns the active (recent, undismissed) alerts
+  app.post("/api/flocks/:flockId/alerts/evaluate", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      if (flock.status === 'closed') {
+        return res.json([]);
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      res.json(await evaluateFlockAlerts(flock, farm));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to evaluate alerts" });
+    }
+  });
+
+  app.patch("/api/alerts/:id/dismiss", async (req, res) => {
+    try {
+      const alert = await storage.dismissFlockAlert(req.params.id);
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      res.json(alert);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to dismiss alert" });
+    }
+  });
+
+  // Bird sales (thinning) routes
+  app.get("/api/flocks/:flockId/bird-sales", async (req, res) => {
+    try {
+      const sales = await storage.getBirdSales(req.params.flockId);
+      res.json(sales);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bird sales" });
+    }
+  });
+
+  app.post("/api/bird-sales", async (req, res) => {
+    try {
+      const saleData = insertBirdSaleSchema.parse(req.body);
+      const flock = saleData.flockId ? await storage.getFlock(saleData.flockId) : undefined;
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      if (flock.status === 'closed') {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      if (saleData.headCount > flock.chickCount) {
+        return res.status(400).json({ message: "Cannot sell more birds than are alive in the flock" });
+      }
+      const sale = await storage.createBirdSale(saleData);
+      res.status(201).json(sale);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid bird sale data" });
+    }
+  });
+
+  // Placed, dead, culled, sold and remaining birds
+  app.get("/api/flocks/:id/summary", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const mortality = await storage.getMortalityRecords(flock.id);
+      const sales = await storage.getBirdSales(flock.id);
+      res.json(calculateFlockSummary(flock, mortality, sales));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch flock summary" });
+    }
+  });
+
+  // Egg production routes (layer flocks)
+  app.get("/api/flocks/:flockId/egg-production", async (req, res) => {
+    try {
+      const records = await storage.getEggProductionRecords(req.params.flockId);
+      res.json(records);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch egg production records" });
+    }
+  });
+
+  app.post("/api/egg-production-records", async (req, res) => {
+    try {
+      const recordData = insertEggProductionSchema.parse(req.body);
+      const flock = recordData.flockId ? await storage.getFlock(recordData.flockId) : undefined;
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      if (flock.status === 'closed') {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      if (flock.type !== 'layer') {
+        return res.status(400).json({ message: "Egg production is only recorded for layer flocks" });
+      }
+      // A back-dated collection is counted against the hens alive on its own day
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const hensAt = await getBirdsByPeriod(flock, "day", farm?.timezone, farm?.dayStart);
+      const day = getLocalDate(recordData.date ?? new Date(), farm?.timezone, farm?.dayStart);
+      const record = await storage.createEggProductionRecord({ ...recordData, henCount: hensAt(day) });
+      res.status(201).json(record);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid egg production data" });
+    }
+  });
+
+  app.get("/api/flocks/:flockId/laying-performance", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const { currentAge } = await withAgeFromFarm(flock);
+      res.json(calculateLayingPerformance({
+        records: await storage.getEggProductionRecords(flock.id),
+        feedRecords: await storage.getFeedWaterRecords(flock.id, 'feed'),
+        hensHoused: flock.initialChickCount,
+        ageDays: currentAge,
+        breed: await getFlockBreedProfile(flock),
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch laying performance" });
+    }
+  });
+
+  // Health program routes
+  app.get("/api/flocks/:flockId/treatments", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const treatments = await storage.getHealthTreatments(flock.id);
+      res.json(treatments.map(treatment => withTreatmentStatus(treatment, flock, farm)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch treatments" });
+    }
+  });
+
+  // Due and overdue treatments across the farm's active flocks
+  app.get("/api/farms/:farmId/treatments/due", async (req, res) => {
+    try {
+      const farm = await storage.getFarm(req.params.farmId);
       if (!farm) {
         return res.status(404).json({ message: "Farm not found" });
       }
-      
-      // Calculate inside temperature based on equipment and outside conditions
-      const volume = farm.length * farm.width * farm.height;
-      const surfaceArea = 2 * (farm.length * farm.width + farm.length * farm.height + farm.width * farm.height);
-      
-      // Base temperature calculation
-      let insideTemp = outsideTemp;
-      
-      // Add heating effect
-      const activeHeaters = equipment.filter(eq => eq.type === 'heater' && eq.isActive);
-      const totalHeating = activeHeaters.reduce((sum, heater) => {
-        const power = heater.specification?.power || 0;
-        const setting = heater.currentSetting || 0;
-        return sum + (power * setting / 100);
-      }, 0);
-      
-      // Heating contribution (simplified model)
-      insideTemp += (totalHeating * 0.8) / (volume * 0.001); // Rough calculation
-      
-      // Subtract cooling effect from fans
-      const activeFans = equipment.filter(eq => eq.type === 'fan' && eq.isActive);
-      const totalCooling = activeFans.reduce((sum, fan) => {
-        const diameter = fan.specification?.diameter || 0;
-        const setting = fan.currentSetting || 0;
-        const airflow = Math.PI * Math.pow(diameter / 200, 2) * setting * 50; // Simplified airflow calc
-        return sum + airflow;
-      }, 0);
-      
-      // Cooling contribution
-      const coolingEffect = (totalCooling * 0.001 * Math.max(insideTemp - outsideTemp, 0)) / volume;
-      insideTemp -= coolingEffect;
-      
-      // Ventilation effect from inlets
-      const inlets = equipment.filter(eq => eq.type === 'inlet');
-      const ventilationEffect = inlets.reduce((sum, inlet) => {
-        const surface = inlet.specification?.surface || 0;
-        const opening = inlet.currentSetting || 0;
-        return sum + (surface * opening / 100 * windSpeed * 0.1);
-      }, 0);
-      
-      insideTemp -= ventilationEffect;
-      
-      // Calculate humidity (simplified)
-      let insideHumidity = outsideHumidity;
-      if (insideTemp > outsideTemp) {
-        insideHumidity *= (outsideTemp + 273.15) / (insideTemp + 273.15); // Relative humidity adjustment
+      const flocks = await storage.getFlocksByFarm(farm.id);
+      const due = [];
+      for (const flock of flocks.filter(f => f.status === 'active')) {
+        const treatments = await storage.getHealthTreatments(flock.id);
+        due.push(...treatments
+          .map(treatment => ({ ...withTreatmentStatus(treatment, flock, farm), flockName: flock.name }))
+          .filter(treatment => treatment.status === 'due' || treatment.status === 'overdue'));
       }
-      
-      // Generate recommendations
-      const recommendations = [];
-      const targetTempMin = 30;
-      const targetTempMax = 32;
-      
-      if (insideTemp < targetTempMin) {
-        recommendations.push({
-          type: 'warning',
-          title: 'Temperature Below Target',
-          message: `Inside temperature ${insideTemp.toFixed(1)}°C is below target range. Consider increasing heater output or reducing ventilation.`,
-          action: 'temperature_low'
-        });
-      } else if (insideTemp > targetTempMax) {
-        recommendations.push({
-          type: 'warning', 
-          title: 'Temperature Above Target',
-          message: `Inside temperature ${insideTemp.toFixed(1)}°C is above target range. Consider increasing fan speed or opening inlets.`,
-          action: 'temperature_high'
-        });
-      } else {
-        recommendations.push({
-          type: 'success',
-          title: 'Temperature Optimal',
-          message: 'Inside temperature is within the optimal range for current age.',
-          action: 'temperature_good'
-        });
+      res.json(due);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch due treatments" });
+    }
+  });
+
+  app.post("/api/treatments", async (req, res) => {
+    try {
+      const treatmentData = insertHealthTreatmentSchema.parse(req.body);
+      if (await isFlockClosed(treatmentData.flockId)) {
+        return res.status(409).json({ message: "Flock is closed" });
       }
-      
-      // Energy optimization recommendations
-      if (totalHeating > 10 && insideTemp > targetTempMax) {
-        recommendations.push({
-          type: 'info',
-          title: 'Energy Optimization',
-          message: 'Consider reducing heater output to save energy while maintaining comfort zone.',
-          action: 'optimize_energy'
-        });
+      const treatment = await storage.createHealthTreatment(treatmentData);
+      res.status(201).json(treatment);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid treatment data" });
+    }
+  });
+
+  app.post("/api/treatments/:id/administer", async (req, res) => {
+    try {
+      const { administeredAt, notes } = administerTreatmentSchema.parse(req.body);
+      const treatment = await storage.getHealthTreatment(req.params.id);
+      if (!treatment) {
+        return res.status(404).json({ message: "Treatment not found" });
       }
-      
-      const calculations = {
-        insideTemp: Math.round(insideTemp * 10) / 10,
-        insideHumidity: Math.round(insideHumidity * 10) / 10,
-        totalHeating,
-        totalCooling,
-        ventilationEffect: Math.round(ventilationEffect * 10) / 10,
-        recommendations,
-        volume,
-        surfaceArea: Math.round(surfaceArea * 10) / 10,
-      };
-      
-      res.json(calculations);
+      if (treatment.administeredAt) {
+        return res.status(409).json({ message: "Treatment has already been administered" });
+      }
+      if (await isFlockClosed(treatment.flockId)) {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      const updated = await storage.updateHealthTreatment(treatment.id, {
+        administeredAt: administeredAt ?? new Date(),
+        notes: notes ?? treatment.notes,
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid administration data" });
+    }
+  });
+
+  // Weigh session routes
+  app.get("/api/flocks/:flockId/weigh-sessions", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const sessions = await storage.getWeighSessions(flock.id);
+      res.json(sessions.map(session => withWeighingStats(session, flock, farm)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch weigh sessions" });
+    }
+  });
+
+  // Actual FCR from recorded feed, weighings, mortality and sales
+  app.get("/api/flocks/:id/performance", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.id);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const ageOn = (date: Date | null) => getFlockAge(flock.batchDate, farm?.timezone, date ?? new Date(), farm?.dayStart);
+      const { currentAge } = withAge(flock, farm);
+      const breed = await getFlockBreedProfile(flock);
+      const [latest] = await storage.getWeighSessions(flock.id);
+      const weighing = latest ? withWeighingStats(latest, flock, farm) : undefined;
+
+      const feedRecords = await storage.getFeedWaterRecords(flock.id, 'feed');
+      const mortality = await storage.getMortalityRecords(flock.id);
+      const sales = await storage.getBirdSales(flock.id);
+      res.json(calculateFlockPerformance({
+        age: currentAge,
+        birds: flock.chickCount,
+        placed: flock.initialChickCount,
+        averageWeight: weighing?.stats.mean ?? flock.averageWeight,
+        weighedAge: weighing?.age ?? currentAge,
+        feed: feedRecords.map(r => ({ amount: r.amount, age: ageOn(r.date) })),
+        mortality: mortality.map(r => ({ deathCount: r.deathCount, age: ageOn(r.date) })),
+        sales: sales.map(s => ({ headCount: s.headCount, totalWeight: s.totalWeight, age: ageOn(s.date) })),
+        standardWeightAt: age => getBreedTargets(breed, age).weight,
+        standardFcrAt: age => getBreedTargets(breed, age).fcr,
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate flock performance" });
+    }
+  });
+
+  app.get("/api/flocks/:flockId/weigh-sessions/latest", async (req, res) => {
+    try {
+      const flock = await storage.getFlock(req.params.flockId);
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      const [latest] = await storage.getWeighSessions(flock.id);
+      res.json(latest ? withWeighingStats(latest, flock, farm) : null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch weigh session" });
+    }
+  });
+
+  app.post("/api/weigh-sessions", async (req, res) => {
+    try {
+      const sessionData = insertWeighSessionSchema.parse(req.body);
+      const flock = sessionData.flockId ? await storage.getFlock(sessionData.flockId) : undefined;
+      if (!flock) {
+        return res.status(404).json({ message: "Flock not found" });
+      }
+      if (flock.status === 'closed') {
+        return res.status(409).json({ message: "Flock is closed" });
+      }
+      const session = await storage.createWeighSession(sessionData);
+
+      // The flock's average weight follows the most recent weighing, which may
+      // not be this one when a session is back-dated
+      const [latest] = await storage.getWeighSessions(flock.id);
+      await storage.updateFlock(flock.id, {
+        averageWeight: calculateWeighingStats(latest).mean,
+      });
+
+      const farm = flock.farmId ? await storage.getFarm(flock.farmId) : undefined;
+      res.status(201).json(withWeighingStats(session, flock, farm));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid weigh session data" });
+    }
+  });
+
+  // AI Calculations endpoint. Outside conditions left out of the request come
+  // from the farm's latest reading, so every caller sees the same figures.
+  app.post("/api/calculate-environment", async (req, res) => {
+    try {
+      const body = calculateEnvironmentSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid environment data" });
+      }
+      const { farmId, flockId, flockAge } = body.data;
+
+      const farm = await storage.getFarm(farmId);
+      if (!farm) {
+        return res.status(404).json({ message: "Farm not found" });
+      }
+      const equipment = await storage.getEquipmentByFarm(farmId);
+      const reading = await storage.getLatestReading(farmId);
+
+      // Targets follow the flock's breed curve at its current age
+      const flock = flockId ? await storage.getFlock(flockId) : undefined;
+      const age = flock ? withAge(flock, farm).currentAge : flockAge ?? 0;
+      const breed = flock ? await getFlockBreedProfile(flock) : getDefaultBreed();
+
+      res.json(calculateEnvironment({
+        house: farm,
+        equipment,
+        birds: flock && { count: flock.chickCount, weight: flock.averageWeight / 1000 },
+        airQuality: reading,
+        outsideTemp: body.data.outsideTemp ?? reading?.outsideTemp ?? DEFAULT_OUTSIDE_CONDITIONS.outsideTemp,
+        outsideHumidity: body.data.outsideHumidity ?? reading?.outsideHumidity ?? DEFAULT_OUTSIDE_CONDITIONS.outsideHumidity,
+        windSpeed: body.data.windSpeed ?? reading?.windSpeed ?? DEFAULT_OUTSIDE_CONDITIONS.windSpeed,
+        age,
+        breed,
+      }));
     } catch (error) {
       res.status(500).json({ 
         message: "Failed to calculate environmental conditions",
@@ -0,0 +1,41 @@
+import { sql } from "drizzle-orm";
+import { db, migrateDatabase } from "./db";
+import { DatabaseStorage } from "./storage";
+import { seedDemoFarm } from "./demo-data";
+
+// Usage: npm run seed -- [demo|empty]
+//   demo  (default) migrate, then add the sample "Main Farm" if no farm exists
+//   empty           migrate, then delete every farm and its records
+(async () => {
+  if (!db) {
+    console.error("DATABASE_URL must be set to seed the database");
+    process.exit(1);
+  }
+
+  const mode = process.argv[2] ?? "demo";
+  if (mode !== "demo" && mode !== "empty") {
+    console.error(`Unknown seed mode "${mode}", expected "demo" or "empty"`);
+    process.exit(1);
+  }
+
+  await migrateDatabase(db);
+  const storage = new DatabaseStorage(db);
+
+  if (mode === "empty") {
+    await db.execute(sql`
+      truncate table daily_checklists, environmental_readings, equipment,
+        feed_water_records, water_meter_readings, feed_deliveries, feed_silos,
+        flock_alerts, record_corrections, mortality_records, bird_sales,
+        egg_production_records, health_treatments, weigh_sessions, flocks,
+        breed_profiles, mortality_reasons, farms
+    `);
+    console.log("Database emptied");
+  } else if ((await storage.getFarms()).length > 0) {
+    console.log("Database already contains farms, demo data not added");
+  } else {
+    const farm = await seedDemoFarm(storage);
+    console.log(`Demo farm "${farm.name}" created`);
+  }
+
+  process.exit(0);
+})();
@@ -0,0 +1,135 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Farm, Flock } from "@shared/schema";
+import { createDatabase, migrateDatabase } from "./db";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+// The same cases run against both storages, so the in-memory store used in
+// development cannot drift from the database one
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", async () => {
+    const database = createDatabase("pglite://memory");
+    await migrateDatabase(database);
+    return new DatabaseStorage(database);
+  }],
+];
+
+for (const [name, createStorage] of backends) {
+  describe(name, () => {
+    let storage: IStorage;
+    let farm: Farm;
+
+    const createFlock = (birds = 1000) => storage.createFlock({
+      farmId: farm.id,
+      name: "Batch",
+      chickCount: birds,
+      initialChickCount: birds,
+      averageWeight: 42,
+      batchDate: new Date("2026-03-01T00:00:00Z"),
+    });
+    const liveBirds = async (flock: Flock) => (await storage.getFlock(flock.id))!.chickCount;
+
+    before(async () => {
+      storage = await createStorage();
+      farm = await storage.createFarm({ name: "Test farm", length: 100, width: 12, height: 3 });
+    });
+
+    it("creates and updates a farm's flock", async () => {
+      const flock = await createFlock();
+      assert.equal((await storage.getFlock(flock.id))?.name, "Batch");
+      assert.ok((await storage.getFlocksByFarm(farm.id)).some(f => f.id === flock.id));
+      assert.equal((await storage.updateFlock(flock.id, { name: "Renamed" }))?.name, "Renamed");
+    });
+
+    it("creates, updates and deletes equipment", async () => {
+      const fan = await storage.createEquipment({ farmId: farm.id, type: "fan", name: "Fan 1", specification: { diameter: 130 } });
+      assert.equal((await storage.updateEquipment(fan.id, { currentSetting: 60 }))?.currentSetting, 60);
+      assert.equal(await storage.deleteEquipment(fan.id), true);
+      assert.equal(await storage.getEquipment(fan.id), undefined);
+    });
+
+    it("takes dead and culled birds off the live count", async () => {
+      const flock = await createFlock();
+      await storage.createMortalityRecord({ flockId: flock.id, deathCount: 3, type: "dead" });
+      await storage.createMortalityRecord({ flockId: flock.id, deathCount: 2, type: "culled" });
+
+      assert.equal(await liveBirds(flock), 995);
+      assert.equal((await storage.getMortalityRecords(flock.id)).length, 2);
+      assert.deepEqual(await storage.getTodaysMortality(flock.id), { dead: 3, culled: 2 });
+    });
+
+    it("gives the difference of an edited mortality record back and keeps the previous values", async () => {
+      const flock = await createFlock();
+      const record = await storage.createMortalityRecord({ flockId: flock.id, deathCount: 10, type: "dead" });
+
+      const updated = await storage.updateMortalityRecord(record.id, { deathCount: 4, reason: "Miscounted" });
+      assert.equal(updated?.deathCount, 4);
+      assert.equal(await liveBirds(flock), 996);
+
+      assert.equal(await storage.deleteMortalityRecord(record.id, "Duplicate"), true);
+      assert.equal(await liveBirds(flock), 1000);
+      assert.equal(await storage.getMortalityRecord(record.id), undefined);
+
+      const corrections = await storage.getRecordCorrections(flock.id);
+      assert.deepEqual(
+        corrections.map(c => [c.action, c.reason, c.previous.deathCount]).sort(),
+        [["delete", "Duplicate", 4], ["update", "Miscounted", 10]],
+      );
+    });
+
+    it("keeps the live count between zero and the birds placed", async () => {
+      const flock = await createFlock(100);
+      const record = await storage.createMortalityRecord({ flockId: flock.id, deathCount: 5, type: "dead" });
+
+      // A manual recount already put the birds back, so deleting the record cannot add more
+      await storage.updateFlock(flock.id, { chickCount: 100 });
+      await storage.deleteMortalityRecord(record.id);
+      assert.equal(await liveBirds(flock), 100);
+
+      const second = await storage.createMortalityRecord({ flockId: flock.id, deathCount: 5, type: "dead" });
+      await storage.updateFlock(flock.id, { chickCount: 2 });
+      await storage.updateMortalityRecord(second.id, { deathCount: 10 });
+      assert.equal(await liveBirds(flock), 0);
+    });
+
+    it("takes sold birds off the live count", async () => {
+      const flock = await createFlock();
+      const sale = await storage.createBirdSale({ flockId: flock.id, headCount: 200, totalWeight: 400 });
+
+      assert.equal(sale.headCount, 200);
+      assert.equal(await liveBirds(flock), 800);
+      assert.equal((await storage.getBirdSales(flock.id)).length, 1);
+    });
+
+    it("edits and deletes feed records with an audit trail", async () => {
+      const flock = await createFlock();
+      const record = await storage.createFeedWaterRecord({ flockId: flock.id, type: "feed", amount: 50 });
+
+      assert.equal((await storage.updateFeedWaterRecord(record.id, { amount: 55, reason: "Scale" }))?.amount, 55);
+      assert.equal(await storage.deleteFeedWaterRecord(record.id, "Wrong flock"), true);
+      assert.deepEqual(await storage.getFeedWaterRecords(flock.id), []);
+
+      const corrections = await storage.getRecordCorrections(flock.id);
+      assert.deepEqual(
+        corrections.map(c => [c.recordType, c.action, c.previous.amount]).sort(),
+        [["feed_water", "delete", 55], ["feed_water", "update", 50]],
+      );
+    });
+
+    it("replaces a day's alert and deletes it once cleared", async () => {
+      const flock = await createFlock();
+      const signals = [{ kind: "feed_below_target" as const, message: "Low feed" }];
+      const first = await storage.saveFlockAlert({ flockId: flock.id, date: "2026-03-10", severity: "warning", signals });
+      await storage.dismissFlockAlert(first.id);
+
+      const same = await storage.saveFlockAlert({ flockId: flock.id, date: "2026-03-10", severity: "warning", signals });
+      assert.ok(same.dismissedAt, "re-saving the same signals keeps the alert dismissed");
+      assert.equal((await storage.getFlockAlerts(flock.id)).length, 1);
+
+      assert.equal(await storage.deleteFlockAlert(flock.id, "2026-03-10"), true);
+      assert.equal(await storage.deleteFlockAlert(flock.id, "2026-03-10"), false);
+      assert.deepEqual(await storage.getFlockAlerts(flock.id), []);
+    });
+  });
+}
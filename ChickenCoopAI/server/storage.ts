@@ -3,11 +3,30 @@ import {
   type Flock, type InsertFlock,
   type Equipment, type InsertEquipment, type UpdateEquipment,
   type EnvironmentalReading, type InsertEnvironmentalReading,
-  type FeedWaterRecord, type InsertFeedWater,
-  type MortalityRecord, type InsertMortality,
-  type DailyChecklist
+  type FeedWaterRecord, type InsertFeedWater, type UpdateFeedWater,
+  type FeedSilo, type InsertFeedSilo,
+  type FeedDelivery, type InsertFeedDelivery,
+  type WaterMeterReading, type InsertWaterMeterReading,
+  type MortalityRecord, type InsertMortality, type UpdateMortality,
+  type MortalityReasonRecord, type InsertMortalityReason,
+  type RecordCorrection, type CorrectedRecordType,
+  type FlockAlert, type InsertFlockAlert,
+  type BirdSale, type InsertBirdSale,
+  type EggProductionRecord, type InsertEggProduction,
+  type HealthTreatment, type InsertHealthTreatment,
+  type WeighSession, type InsertWeighSession,
+  type BreedProfileRecord, type InsertBreedProfile,
+  type DailyChecklist,
+  farms, flocks, breedProfiles, equipment, environmentalReadings,
+  feedWaterRecords, feedSilos, feedDeliveries, waterMeterReadings, mortalityRecords, mortalityReasons, recordCorrections, flockAlerts, birdSales, eggProductionRecords, healthTreatments, weighSessions, dailyChecklists
 } from "@shared/schema";
+import { DEFAULT_BREED_ID, normalizeBreedCurve } from "@shared/breeds";
+import { getFarmDayRange, getLocalDate } from "@shared/time";
+import type { MeterEvent } from "@shared/water";
+import type { MortalityType } from "@shared/mortality";
 import { randomUUID } from "crypto";
+import { and, desc, eq, gte, lt, lte, sql } from "drizzle-orm";
+import { db, type Database } from "./db";
 
 export interface IStorage {
   // Farm operations
@@ -22,6 +41,11 @@ export interface IStorage {
   createFlock(flock: InsertFlock): Promise<Flock>;
   updateFlock(id: string, data: Partial<Flock>): Promise<Flock | undefined>;
 
+  // Custom breed profiles (built-in breeds are not stored)
+  getBreedProfiles(farmId: string): Promise<BreedProfileRecord[]>;
+  getBreedProfile(id: string): Promise<BreedProfileRecord | undefined>;
+  createBreedProfile(profile: InsertBreedProfile): Promise<BreedProfileRecord>;
+
   // Equipment operations
   getEquipment(id: string): Promise<Equipment | undefined>;
   getEquipmentByFarm(farmId: string): Promise<Equipment[]>;
@@ -33,16 +57,73 @@ export interface IStorage {
   getLatestReading(farmId: string): Promise<EnvironmentalReading | undefined>;
   createEnvironmentalReading(reading: InsertEnvironmentalReading): Promise<EnvironmentalReading>;
   getReadings(farmId: string, limit?: number): Promise<EnvironmentalReading[]>;
+  getReadingsInRange(farmId: string, from?: Date, to?: Date): Promise<EnvironmentalReading[]>;
 
   // Feed and water records
   getFeedWaterRecords(flockId: string, type?: 'feed' | 'water'): Promise<FeedWaterRecord[]>;
+  getFeedWaterRecord(id: string): Promise<FeedWaterRecord | undefined>;
   createFeedWaterRecord(record: InsertFeedWater): Promise<FeedWaterRecord>;
+  updateFeedWaterRecord(id: string, data: UpdateFeedWater): Promise<FeedWaterRecord | undefined>;
+  deleteFeedWaterRecord(id: string, reason?: string): Promise<boolean>;
   getTodaysConsumption(flockId: string): Promise<{ feed: number; water: number }>;
 
+  // Feed silos and deliveries
+  getFeedSilos(farmId: string): Promise<FeedSilo[]>;
+  getFeedSilo(id: string): Promise<FeedSilo | undefined>;
+  createFeedSilo(silo: InsertFeedSilo): Promise<FeedSilo>;
+  getFeedDeliveries(siloId: string): Promise<FeedDelivery[]>;
+  createFeedDelivery(delivery: InsertFeedDelivery): Promise<FeedDelivery>;
+  getFeedSiloTotals(siloId: string): Promise<{ delivered: number; used: number }>;
+
+  // Water meter readings, with the derived daily water records
+  getWaterMeterReadings(flockId: string): Promise<WaterMeterReading[]>;
+  createWaterMeterReading(
+    reading: InsertWaterMeterReading & { consumption: number; event: MeterEvent; missingDays: number },
+    dailyWater: { amount: number; date: Date }[],
+  ): Promise<WaterMeterReading>;
+
   // Mortality records
   getMortalityRecords(flockId: string): Promise<MortalityRecord[]>;
+  getMortalityRecord(id: string): Promise<MortalityRecord | undefined>;
   createMortalityRecord(record: InsertMortality): Promise<MortalityRecord>;
-  getTodaysMortality(flockId: string): Promise<number>;
+  // Editing or deleting a mortality record gives the difference back to the live count
+  updateMortalityRecord(id: string, data: UpdateMortality): Promise<MortalityRecord | undefined>;
+  deleteMortalityRecord(id: string, reason?: string): Promise<boolean>;
+
+  // Farm-defined mortality reasons (the built-in catalogue is not stored)
+  getMortalityReasons(farmId: string): Promise<MortalityReasonRecord[]>;
+  createMortalityReason(reason: InsertMortalityReason): Promise<MortalityReasonRecord>;
+  // Birds found dead and culled today, kept apart as culls are the farmer's decision
+  getTodaysMortality(flockId: string): Promise<Record<MortalityType, number>>;
+
+  // Audit trail of record edits and deletions, newest first
+  getRecordCorrections(flockId: string): Promise<RecordCorrection[]>;
+
+  // Anomaly alerts, newest day first. Saving replaces the flock's alert for
+  // that day; a changed set of signals brings a dismissed alert back.
+  getFlockAlerts(flockId: string): Promise<FlockAlert[]>;
+  saveFlockAlert(alert: InsertFlockAlert): Promise<FlockAlert>;
+  // Removes a flock's alert for a farm day once its signals have stopped firing
+  deleteFlockAlert(flockId: string, date: string): Promise<boolean>;
+  dismissFlockAlert(id: string): Promise<FlockAlert | undefined>;
+
+  // Bird sales (thinning)
+  getBirdSales(flockId: string): Promise<BirdSale[]>;
+  createBirdSale(sale: InsertBirdSale): Promise<BirdSale>;
+
+  // Egg production (layer flocks)
+  getEggProductionRecords(flockId: string): Promise<EggProductionRecord[]>;
+  createEggProductionRecord(record: InsertEggProduction & { henCount: number }): Promise<EggProductionRecord>;
+
+  // Health program (vaccinations and medications)
+  getHealthTreatments(flockId: string): Promise<HealthTreatment[]>;
+  getHealthTreatment(id: string): Promise<HealthTreatment | undefined>;
+  createHealthTreatment(treatment: InsertHealthTreatment): Promise<HealthTreatment>;
+  updateHealthTreatment(id: string, data: Partial<HealthTreatment>): Promise<HealthTreatment | undefined>;
+
+  // Weigh sessions
+  getWeighSessions(flockId: string): Promise<WeighSession[]>;
+  createWeighSession(session: InsertWeighSession): Promise<WeighSession>;
 
   // Daily checklist
   getTodaysChecklist(farmId: string): Promise<DailyChecklist | undefined>;
@@ -52,85 +133,23 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private farms: Map<string, Farm> = new Map();
   private flocks: Map<string, Flock> = new Map();
+  private breedProfiles: Map<string, BreedProfileRecord> = new Map();
   private equipment: Map<string, Equipment> = new Map();
   private environmentalReadings: Map<string, EnvironmentalReading> = new Map();
   private feedWaterRecords: Map<string, FeedWaterRecord> = new Map();
+  private feedSilos: Map<string, FeedSilo> = new Map();
+  private feedDeliveries: Map<string, FeedDelivery> = new Map();
+  private waterMeterReadings: Map<string, WaterMeterReading> = new Map();
   private mortalityRecords: Map<string, MortalityRecord> = new Map();
+  private mortalityReasons: Map<string, MortalityReasonRecord> = new Map();
+  private recordCorrections: Map<string, RecordCorrection> = new Map();
+  private flockAlerts: Map<string, FlockAlert> = new Map();
+  private birdSales: Map<string, BirdSale> = new Map();
+  private eggProductionRecords: Map<string, EggProductionRecord> = new Map();
+  private healthTreatments: Map<string, HealthTreatment> = new Map();
+  private weighSessions: Map<string, WeighSession> = new Map();
   private dailyChecklists: Map<string, DailyChecklist> = new Map();
 
-  constructor() {
-    // Initialize with sample data
-    this.initializeData();
-  }
-
-  private initializeData() {
-    // Create a default farm
-    const farmId = randomUUID();
-    const farm: Farm = {
-      id: farmId,
-      name: "Main Farm",
-      length: 24,
-      width: 12,
-      height: 3.5,
-      createdAt: new Date(),
-    };
-    this.farms.set(farmId, farm);
-
-    // Create a default flock
-    const flockId = randomUUID();
-    const flock: Flock = {
-      id: flockId,
-      farmId,
-      name: "Batch A",
-      chickCount: 1250,
-      initialChickCount: 1300,
-      currentAge: 18,
-      averageWeight: 485,
-      batchDate: new Date(Date.now() - 18 * 24 * 60 * 60 * 1000),
-      createdAt: new Date(),
-    };
-    this.flocks.set(flockId, flock);
-
-    // Create default equipment
-    const equipmentData = [
-      { type: 'fan', name: 'Fan 1', specification: { diameter: 120, power: 2.8 } },
-      { type: 'fan', name: 'Fan 2', specification: { diameter: 100, power: 2.1 } },
-      { type: 'heater', name: 'Heater 1', specification: { power: 15 } },
-      { type: 'heater', name: 'Heater 2', specification: { power: 12 } },
-      { type: 'inlet', name: 'Air Inlet System', specification: { surface: 2.4 } },
-    ];
-
-    equipmentData.forEach(eq => {
-      const id = randomUUID();
-      const equipment: Equipment = {
-        id,
-        farmId,
-        type: eq.type,
-        name: eq.name,
-        specification: eq.specification,
-        isActive: eq.type === 'fan' ? true : eq.type === 'heater' ? true : false,
-        currentSetting: eq.type === 'fan' ? 75 : eq.type === 'heater' ? 45 : 30,
-        createdAt: new Date(),
-      };
-      this.equipment.set(id, equipment);
-    });
-
-    // Create initial environmental reading
-    const readingId = randomUUID();
-    const reading: EnvironmentalReading = {
-      id: readingId,
-      farmId,
-      insideTemp: 28,
-      insideHumidity: 65,
-      outsideTemp: 22,
-      outsideHumidity: 45,
-      windSpeed: 12,
-      pressure: 1013,
-      timestamp: new Date(),
-    };
-    this.environmentalReadings.set(readingId, reading);
-  }
-
   async getFarm(id: string): Promise<Farm | undefined> {
     return this.farms.get(id);
   }
@@ -140,6 +159,10 @@ export class MemStorage implements IStorage {
     const farm: Farm = {
       ...insertFarm,
       id,
+      timezone: insertFarm.timezone ?? "UTC",
+      dayStart: insertFarm.dayStart ?? 0,
+      wallUValue: insertFarm.wallUValue ?? 0.6,
+      roofUValue: insertFarm.roofUValue ?? 0.4,
       createdAt: new Date(),
     };
     this.farms.set(id, farm);
@@ -172,6 +195,15 @@ export class MemStorage implements IStorage {
     const flock: Flock = {
       ...insertFlock,
       id,
+      farmId: insertFlock.farmId ?? null,
+      type: insertFlock.type ?? "broiler",
+      breedId: insertFlock.breedId ?? DEFAULT_BREED_ID,
+      feedProgram: null,
+      status: "active",
+      harvestDate: null,
+      birdsDelivered: null,
+      totalLiveWeight: null,
+      condemnations: null,
       createdAt: new Date(),
     };
     this.flocks.set(id, flock);
@@ -187,6 +219,28 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async getBreedProfiles(farmId: string): Promise<BreedProfileRecord[]> {
+    return Array.from(this.breedProfiles.values()).filter(p => p.farmId === farmId);
+  }
+
+  async getBreedProfile(id: string): Promise<BreedProfileRecord | undefined> {
+    return this.breedProfiles.get(id);
+  }
+
+  async createBreedProfile(insertProfile: InsertBreedProfile): Promise<BreedProfileRecord> {
+    const id = randomUUID();
+    const profile: BreedProfileRecord = {
+      ...insertProfile,
+      id,
+      farmId: insertProfile.farmId ?? null,
+      curve: normalizeBreedCurve(insertProfile.curve),
+      layingCurve: insertProfile.layingCurve ?? null,
+      createdAt: new Date(),
+    };
+    this.breedProfiles.set(id, profile);
+    return profile;
+  }
+
   async getEquipment(id: string): Promise<Equipment | undefined> {
     return this.equipment.get(id);
   }
@@ -200,6 +254,10 @@ export class MemStorage implements IStorage {
     const equipment: Equipment = {
       ...insertEquipment,
       id,
+      farmId: insertEquipment.farmId ?? null,
+      specification: (insertEquipment.specification ?? null) as Equipment['specification'],
+      isActive: insertEquipment.isActive ?? false,
+      currentSetting: insertEquipment.currentSetting ?? 0,
       createdAt: new Date(),
     };
     this.equipment.set(id, equipment);
@@ -230,8 +288,18 @@ export class MemStorage implements IStorage {
   async createEnvironmentalReading(insertReading: InsertEnvironmentalReading): Promise<EnvironmentalReading> {
     const id = randomUUID();
     const reading: EnvironmentalReading = {
-      ...insertReading,
       id,
+      farmId: insertReading.farmId ?? null,
+      insideTemp: insertReading.insideTemp ?? null,
+      insideHumidity: insertReading.insideHumidity ?? null,
+      outsideTemp: insertReading.outsideTemp ?? null,
+      outsideHumidity: insertReading.outsideHumidity ?? null,
+      windSpeed: insertReading.windSpeed ?? null,
+      pressure: insertReading.pressure ?? null,
+      co2: insertReading.co2 ?? null,
+      ammonia: insertReading.ammonia ?? null,
+      pm25: insertReading.pm25 ?? null,
+      pm10: insertReading.pm10 ?? null,
       timestamp: new Date(),
     };
     this.environmentalReadings.set(id, reading);
@@ -245,6 +313,13 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async getReadingsInRange(farmId: string, from?: Date, to?: Date): Promise<EnvironmentalReading[]> {
+    return Array.from(this.environmentalReadings.values())
+      .filter(r => r.farmId === farmId)
+      .filter(r => (!from || r.timestamp! >= from) && (!to || r.timestamp! <= to))
+      .sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
+  }
+
   async getFeedWaterRecords(flockId: string, type?: 'feed' | 'water'): Promise<FeedWaterRecord[]> {
     let records = Array.from(this.feedWaterRecords.values()).filter(r => r.flockId === flockId);
     
@@ -260,25 +335,142 @@ export class MemStorage implements IStorage {
     const record: FeedWaterRecord = {
       ...insertRecord,
       id,
+      flockId: insertRecord.flockId ?? null,
+      siloId: insertRecord.siloId ?? null,
+      diet: insertRecord.diet ?? null,
+      meterReadingId: null,
+      date: insertRecord.date ? new Date(insertRecord.date) : new Date(),
       createdAt: new Date(),
     };
     this.feedWaterRecords.set(id, record);
     return record;
   }
 
+  async getFeedWaterRecord(id: string): Promise<FeedWaterRecord | undefined> {
+    return this.feedWaterRecords.get(id);
+  }
+
+  async updateFeedWaterRecord(id: string, data: UpdateFeedWater): Promise<FeedWaterRecord | undefined> {
+    const record = this.feedWaterRecords.get(id);
+    if (!record) return undefined;
+
+    const { reason, date, ...changes } = data;
+    this.addCorrection('feed_water', record, 'update', reason);
+    const updated = { ...record, ...changes, ...(date ? { date: new Date(date) } : {}) };
+    this.feedWaterRecords.set(id, updated);
+    return updated;
+  }
+
+  async deleteFeedWaterRecord(id: string, reason?: string): Promise<boolean> {
+    const record = this.feedWaterRecords.get(id);
+    if (!record) return false;
+
+    this.addCorrection('feed_water', record, 'delete', reason);
+    return this.feedWaterRecords.delete(id);
+  }
+
+  async getWaterMeterReadings(flockId: string): Promise<WaterMeterReading[]> {
+    return Array.from(this.waterMeterReadings.values())
+      .filter(r => r.flockId === flockId)
+      .sort((a, b) => new Date(b.date!).getTime() - new Date(a.date!).getTime());
+  }
+
+  async createWaterMeterReading(
+    insertReading: InsertWaterMeterReading & { consumption: number; event: MeterEvent; missingDays: number },
+    dailyWater: { amount: number; date: Date }[],
+  ): Promise<WaterMeterReading> {
+    const id = randomUUID();
+    const reading: WaterMeterReading = {
+      ...insertReading,
+      id,
+      flockId: insertReading.flockId ?? null,
+      date: insertReading.date ? new Date(insertReading.date) : new Date(),
+      createdAt: new Date(),
+    };
+    this.waterMeterReadings.set(id, reading);
+
+    for (const day of dailyWater) {
+      const recordId = randomUUID();
+      this.feedWaterRecords.set(recordId, {
+        id: recordId,
+        flockId: reading.flockId,
+        type: 'water',
+        amount: day.amount,
+        siloId: null,
+        diet: null,
+        meterReadingId: id,
+        date: day.date,
+        createdAt: new Date(),
+      });
+    }
+
+    return reading;
+  }
+
   async getTodaysConsumption(flockId: string): Promise<{ feed: number; water: number }> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
+    const isToday = inRange(todayRange(this.getFlockFarm(flockId)));
     const todayRecords = Array.from(this.feedWaterRecords.values())
-      .filter(r => r.flockId === flockId && new Date(r.date!).toDateString() === today.toDateString());
-    
+      .filter(r => r.flockId === flockId && isToday(r.date));
+
     const feed = todayRecords.filter(r => r.type === 'feed').reduce((sum, r) => sum + r.amount, 0);
     const water = todayRecords.filter(r => r.type === 'water').reduce((sum, r) => sum + r.amount, 0);
     
     return { feed, water };
   }
 
+  async getFeedSilos(farmId: string): Promise<FeedSilo[]> {
+    return Array.from(this.feedSilos.values())
+      .filter(s => s.farmId === farmId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getFeedSilo(id: string): Promise<FeedSilo | undefined> {
+    return this.feedSilos.get(id);
+  }
+
+  async createFeedSilo(insertSilo: InsertFeedSilo): Promise<FeedSilo> {
+    const id = randomUUID();
+    const silo: FeedSilo = {
+      ...insertSilo,
+      id,
+      farmId: insertSilo.farmId ?? null,
+      createdAt: new Date(),
+    };
+    this.feedSilos.set(id, silo);
+    return silo;
+  }
+
+  async getFeedDeliveries(siloId: string): Promise<FeedDelivery[]> {
+    return Array.from(this.feedDeliveries.values())
+      .filter(d => d.siloId === siloId)
+      .sort((a, b) => new Date(b.date!).getTime() - new Date(a.date!).getTime());
+  }
+
+  async createFeedDelivery(insertDelivery: InsertFeedDelivery): Promise<FeedDelivery> {
+    const id = randomUUID();
+    const delivery: FeedDelivery = {
+      ...insertDelivery,
+      id,
+      siloId: insertDelivery.siloId ?? null,
+      supplier: insertDelivery.supplier ?? null,
+      invoicePrice: insertDelivery.invoicePrice ?? null,
+      date: insertDelivery.date ? new Date(insertDelivery.date) : new Date(),
+      createdAt: new Date(),
+    };
+    this.feedDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async getFeedSiloTotals(siloId: string): Promise<{ delivered: number; used: number }> {
+    const delivered = Array.from(this.feedDeliveries.values())
+      .filter(d => d.siloId === siloId)
+      .reduce((sum, d) => sum + d.amount, 0);
+    const used = Array.from(this.feedWaterRecords.values())
+      .filter(r => r.siloId === siloId && r.type === 'feed')
+      .reduce((sum, r) => sum + r.amount, 0);
+    return { delivered, used };
+  }
+
   async getMortalityRecords(flockId: string): Promise<MortalityRecord[]> {
     return Array.from(this.mortalityRecords.values())
       .filter(r => r.flockId === flockId)
@@ -290,6 +482,12 @@ export class MemStorage implements IStorage {
     const record: MortalityRecord = {
       ...insertRecord,
       id,
+      flockId: insertRecord.flockId ?? null,
+      reasonCode: insertRecord.reasonCode ?? null,
+      cause: null,
+      necropsyFindings: insertRecord.necropsyFindings ?? null,
+      vetReference: insertRecord.vetReference ?? null,
+      date: insertRecord.date ? new Date(insertRecord.date) : new Date(),
       createdAt: new Date(),
     };
     this.mortalityRecords.set(id, record);
@@ -304,20 +502,248 @@ export class MemStorage implements IStorage {
     return record;
   }
 
-  async getTodaysMortality(flockId: string): Promise<number> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
+  async getTodaysMortality(flockId: string): Promise<Record<MortalityType, number>> {
+    const isToday = inRange(todayRange(this.getFlockFarm(flockId)));
     const todayRecords = Array.from(this.mortalityRecords.values())
-      .filter(r => r.flockId === flockId && new Date(r.date!).toDateString() === today.toDateString());
-    
-    return todayRecords.reduce((sum, r) => sum + r.deathCount, 0);
+      .filter(r => r.flockId === flockId && isToday(r.date));
+    const countOf = (type: MortalityType) => todayRecords
+      .filter(r => r.type === type)
+      .reduce((sum, r) => sum + r.deathCount, 0);
+
+    return { dead: countOf("dead"), culled: countOf("culled") };
+  }
+
+  async getMortalityRecord(id: string): Promise<MortalityRecord | undefined> {
+    return this.mortalityRecords.get(id);
+  }
+
+  async updateMortalityRecord(id: string, data: UpdateMortality): Promise<MortalityRecord | undefined> {
+    const record = this.mortalityRecords.get(id);
+    if (!record) return undefined;
+
+    const { reason, date, ...changes } = data;
+    this.addCorrection('mortality', record, 'update', reason);
+    const updated = { ...record, ...changes, ...(date ? { date: new Date(date) } : {}) };
+    this.mortalityRecords.set(id, updated);
+    this.adjustChickCount(record.flockId, record.deathCount - updated.deathCount);
+    return updated;
+  }
+
+  async deleteMortalityRecord(id: string, reason?: string): Promise<boolean> {
+    const record = this.mortalityRecords.get(id);
+    if (!record) return false;
+
+    this.addCorrection('mortality', record, 'delete', reason);
+    this.mortalityRecords.delete(id);
+    this.adjustChickCount(record.flockId, record.deathCount);
+    return true;
+  }
+
+  async getMortalityReasons(farmId: string): Promise<MortalityReasonRecord[]> {
+    return Array.from(this.mortalityReasons.values()).filter(r => r.farmId === farmId);
+  }
+
+  async createMortalityReason(insertReason: InsertMortalityReason): Promise<MortalityReasonRecord> {
+    const id = randomUUID();
+    const reason: MortalityReasonRecord = {
+      ...insertReason,
+      id,
+      farmId: insertReason.farmId ?? null,
+      createdAt: new Date(),
+    };
+    this.mortalityReasons.set(id, reason);
+    return reason;
+  }
+
+  async getRecordCorrections(flockId: string): Promise<RecordCorrection[]> {
+    return Array.from(this.recordCorrections.values())
+      .filter(c => c.flockId === flockId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+
+  async getFlockAlerts(flockId: string): Promise<FlockAlert[]> {
+    return Array.from(this.flockAlerts.values())
+      .filter(a => a.flockId === flockId)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async saveFlockAlert(alert: InsertFlockAlert): Promise<FlockAlert> {
+    const existing = Array.from(this.flockAlerts.values())
+      .find(a => a.flockId === alert.flockId && a.date === alert.date);
+    if (existing) {
+      const updated = {
+        ...existing,
+        ...alert,
+        dismissedAt: sameSignals(existing.signals, alert.signals) ? existing.dismissedAt : null,
+      };
+      this.flockAlerts.set(existing.id, updated);
+      return updated;
+    }
+
+    const id = randomUUID();
+    const created: FlockAlert = { ...alert, id, dismissedAt: null, createdAt: new Date() };
+    this.flockAlerts.set(id, created);
+    return created;
+  }
+
+  async deleteFlockAlert(flockId: string, date: string): Promise<boolean> {
+    const existing = Array.from(this.flockAlerts.values())
+      .find(a => a.flockId === flockId && a.date === date);
+    return existing ? this.flockAlerts.delete(existing.id) : false;
+  }
+
+  async dismissFlockAlert(id: string): Promise<FlockAlert | undefined> {
+    const alert = this.flockAlerts.get(id);
+    if (!alert) return undefined;
+
+    const updated = { ...alert, dismissedAt: new Date() };
+    this.flockAlerts.set(id, updated);
+    return updated;
+  }
+
+  private addCorrection(
+    recordType: CorrectedRecordType,
+    record: { id: string; flockId: string | null },
+    action: RecordCorrection["action"],
+    reason?: string,
+  ) {
+    const id = randomUUID();
+    this.recordCorrections.set(id, {
+      id,
+      flockId: record.flockId,
+      recordType,
+      recordId: record.id,
+      action,
+      previous: { ...record },
+      reason: reason ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  // Live count never drops below zero nor rises above the birds placed
+  private adjustChickCount(flockId: string | null, delta: number) {
+    const flock = flockId ? this.flocks.get(flockId) : undefined;
+    if (flock) {
+      flock.chickCount = Math.min(flock.initialChickCount, Math.max(0, flock.chickCount + delta));
+    }
+  }
+
+  async getBirdSales(flockId: string): Promise<BirdSale[]> {
+    return Array.from(this.birdSales.values())
+      .filter(s => s.flockId === flockId)
+      .sort((a, b) => new Date(b.date!).getTime() - new Date(a.date!).getTime());
+  }
+
+  async createBirdSale(insertSale: InsertBirdSale): Promise<BirdSale> {
+    const id = randomUUID();
+    const sale: BirdSale = {
+      ...insertSale,
+      id,
+      flockId: insertSale.flockId ?? null,
+      buyer: insertSale.buyer ?? null,
+      pricePerKg: insertSale.pricePerKg ?? null,
+      date: insertSale.date ? new Date(insertSale.date) : new Date(),
+      createdAt: new Date(),
+    };
+    this.birdSales.set(id, sale);
+
+    // Sold birds leave the live count
+    const flock = Array.from(this.flocks.values()).find(f => f.id === insertSale.flockId);
+    if (flock) {
+      flock.chickCount = Math.max(0, flock.chickCount - insertSale.headCount);
+      this.flocks.set(flock.id, flock);
+    }
+
+    return sale;
+  }
+
+  async getEggProductionRecords(flockId: string): Promise<EggProductionRecord[]> {
+    return Array.from(this.eggProductionRecords.values())
+      .filter(r => r.flockId === flockId)
+      .sort((a, b) => new Date(b.date!).getTime() - new Date(a.date!).getTime());
+  }
+
+  async createEggProductionRecord(
+    insertRecord: InsertEggProduction & { henCount: number },
+  ): Promise<EggProductionRecord> {
+    const id = randomUUID();
+    const record: EggProductionRecord = {
+      ...insertRecord,
+      id,
+      flockId: insertRecord.flockId ?? null,
+      crackedEggs: insertRecord.crackedEggs ?? 0,
+      dirtyEggs: insertRecord.dirtyEggs ?? 0,
+      floorEggs: insertRecord.floorEggs ?? 0,
+      eggWeight: insertRecord.eggWeight ?? null,
+      date: insertRecord.date ? new Date(insertRecord.date) : new Date(),
+      createdAt: new Date(),
+    };
+    this.eggProductionRecords.set(id, record);
+    return record;
+  }
+
+  async getHealthTreatments(flockId: string): Promise<HealthTreatment[]> {
+    return Array.from(this.healthTreatments.values())
+      .filter(t => t.flockId === flockId)
+      .sort((a, b) => a.plannedAge - b.plannedAge);
+  }
+
+  async getHealthTreatment(id: string): Promise<HealthTreatment | undefined> {
+    return this.healthTreatments.get(id);
+  }
+
+  async createHealthTreatment(insertTreatment: InsertHealthTreatment): Promise<HealthTreatment> {
+    const id = randomUUID();
+    const treatment: HealthTreatment = {
+      ...insertTreatment,
+      id,
+      flockId: insertTreatment.flockId ?? null,
+      withdrawalDays: insertTreatment.withdrawalDays ?? 0,
+      administeredAt: null,
+      notes: insertTreatment.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.healthTreatments.set(id, treatment);
+    return treatment;
+  }
+
+  async updateHealthTreatment(id: string, data: Partial<HealthTreatment>): Promise<HealthTreatment | undefined> {
+    const treatment = this.healthTreatments.get(id);
+    if (!treatment) return undefined;
+
+    const updated = { ...treatment, ...data };
+    this.healthTreatments.set(id, updated);
+    return updated;
+  }
+
+  async getWeighSessions(flockId: string): Promise<WeighSession[]> {
+    return Array.from(this.weighSessions.values())
+      .filter(s => s.flockId === flockId)
+      .sort((a, b) => new Date(b.date!).getTime() - new Date(a.date!).getTime());
+  }
+
+  async createWeighSession(insertSession: InsertWeighSession): Promise<WeighSession> {
+    const id = randomUUID();
+    const session: WeighSession = {
+      id,
+      flockId: insertSession.flockId ?? null,
+      ...weighSessionTotals(insertSession),
+      date: insertSession.date ? new Date(insertSession.date) : new Date(),
+      createdAt: new Date(),
+    };
+    this.weighSessions.set(id, session);
+    return session;
   }
 
   async getTodaysChecklist(farmId: string): Promise<DailyChecklist | undefined> {
-    const today = new Date().toDateString();
+    const isToday = inRange(todayRange(this.farms.get(farmId)));
     return Array.from(this.dailyChecklists.values())
-      .find(c => c.farmId === farmId && new Date(c.date!).toDateString() === today);
+      .find(c => c.farmId === farmId && isToday(c.date));
+  }
+
+  private getFlockFarm(flockId: string): Farm | undefined {
+    const flock = this.flocks.get(flockId);
+    return flock?.farmId ? this.farms.get(flock.farmId) : undefined;
   }
 
   async updateChecklist(farmId: string, tasks: { id: string; task: string; completed: boolean }[]): Promise<DailyChecklist> {
@@ -342,4 +768,573 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+// Start and end of the current farm day in the farm's timezone and day start,
+// so entries made after local midnight are not counted against the server's day
+function todayRange(farm?: Farm): [Date, Date] {
+  const timeZone = farm?.timezone ?? "UTC";
+  const dayStart = farm?.dayStart ?? 0;
+  return getFarmDayRange(getLocalDate(new Date(), timeZone, dayStart), timeZone, dayStart);
+}
+
+const inRange = ([start, end]: [Date, Date]) => (date: Date | null) =>
+  !!date && date >= start && date < end;
+
+// Individual weights take precedence over a bulk count and total
+function weighSessionTotals(session: InsertWeighSession) {
+  const weights = session.weights ?? null;
+  return {
+    weights,
+    sampleCount: weights ? weights.length : session.sampleCount!,
+    sampleTotal: weights ? weights.reduce((sum, w) => sum + w, 0) : session.sampleTotal!,
+  };
+}
+
+function sameSignals(a: InsertFlockAlert["signals"], b: InsertFlockAlert["signals"]) {
+  return a.map(s => s.kind).sort().join() === b.map(s => s.kind).sort().join();
+}
+
+// Live count moved by delta, kept between zero and the birds placed
+function adjustedChickCount(delta: number) {
+  return sql`least(${flocks.initialChickCount}, greatest(0, ${flocks.chickCount} + ${delta}))`;
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getFarms(): Promise<Farm[]> {
+    return this.db.select().from(farms).orderBy(farms.createdAt);
+  }
+
+  async getFarm(id: string): Promise<Farm | undefined> {
+    const [farm] = await this.db.select().from(farms).where(eq(farms.id, id));
+    return farm;
+  }
+
+  async createFarm(insertFarm: InsertFarm): Promise<Farm> {
+    const [farm] = await this.db.insert(farms).values(insertFarm).returning();
+    return farm;
+  }
+
+  async updateFarm(id: string, data: Partial<Farm>): Promise<Farm | undefined> {
+    const [farm] = await this.db.update(farms).set(data).where(eq(farms.id, id)).returning();
+    return farm;
+  }
+
+  async getFlock(id: string): Promise<Flock | undefined> {
+    const [flock] = await this.db.select().from(flocks).where(eq(flocks.id, id));
+    return flock;
+  }
+  private async getFlockFarm(flockId: string): Promise<Farm | undefined> {
+    const flock = await this.getFlock(flockId);
+    return flock?.farmId ? this.getFarm(flock.farmId) : undefined;
+  }
+
+
+  async getFlocksByFarm(farmId: string): Promise<Flock[]> {
+    return this.db.select().from(flocks).where(eq(flocks.farmId, farmId)).orderBy(flocks.createdAt);
+  }
+
+  async createFlock(insertFlock: InsertFlock): Promise<Flock> {
+    const [flock] = await this.db.insert(flocks).values(insertFlock).returning();
+    return flock;
+  }
+
+  async updateFlock(id: string, data: Partial<Flock>): Promise<Flock | undefined> {
+    const [flock] = await this.db.update(flocks).set(data).where(eq(flocks.id, id)).returning();
+    return flock;
+  }
+
+  async getBreedProfiles(farmId: string): Promise<BreedProfileRecord[]> {
+    return this.db.select().from(breedProfiles)
+      .where(eq(breedProfiles.farmId, farmId))
+      .orderBy(breedProfiles.createdAt);
+  }
+
+  async getBreedProfile(id: string): Promise<BreedProfileRecord | undefined> {
+    const [profile] = await this.db.select().from(breedProfiles).where(eq(breedProfiles.id, id));
+    return profile;
+  }
+
+  async createBreedProfile(insertProfile: InsertBreedProfile): Promise<BreedProfileRecord> {
+    const [profile] = await this.db.insert(breedProfiles).values({
+      ...insertProfile,
+      curve: normalizeBreedCurve(insertProfile.curve),
+    }).returning();
+    return profile;
+  }
+
+  async getEquipment(id: string): Promise<Equipment | undefined> {
+    const [item] = await this.db.select().from(equipment).where(eq(equipment.id, id));
+    return item;
+  }
+
+  async getEquipmentByFarm(farmId: string): Promise<Equipment[]> {
+    return this.db.select().from(equipment).where(eq(equipment.farmId, farmId)).orderBy(equipment.createdAt);
+  }
+
+  async createEquipment(insertEquipment: InsertEquipment): Promise<Equipment> {
+    const [item] = await this.db.insert(equipment).values({
+      ...insertEquipment,
+      specification: insertEquipment.specification as Equipment['specification'],
+    }).returning();
+    return item;
+  }
+
+  async updateEquipment(id: string, data: UpdateEquipment): Promise<Equipment | undefined> {
+    const [item] = await this.db.update(equipment).set(data).where(eq(equipment.id, id)).returning();
+    return item;
+  }
+
+  async deleteEquipment(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(equipment).where(eq(equipment.id, id)).returning({ id: equipment.id });
+    return deleted.length > 0;
+  }
+
+  async getLatestReading(farmId: string): Promise<EnvironmentalReading | undefined> {
+    const [reading] = await this.getReadings(farmId, 1);
+    return reading;
+  }
+
+  async createEnvironmentalReading(insertReading: InsertEnvironmentalReading): Promise<EnvironmentalReading> {
+    const [reading] = await this.db.insert(environmentalReadings).values(insertReading).returning();
+    return reading;
+  }
+
+  async getReadings(farmId: string, limit = 100): Promise<EnvironmentalReading[]> {
+    return this.db.select().from(environmentalReadings)
+      .where(eq(environmentalReadings.farmId, farmId))
+      .orderBy(desc(environmentalReadings.timestamp))
+      .limit(limit);
+  }
+
+  async getReadingsInRange(farmId: string, from?: Date, to?: Date): Promise<EnvironmentalReading[]> {
+    return this.db.select().from(environmentalReadings)
+      .where(and(
+        eq(environmentalReadings.farmId, farmId),
+        from ? gte(environmentalReadings.timestamp, from) : undefined,
+        to ? lte(environmentalReadings.timestamp, to) : undefined,
+      ))
+      .orderBy(environmentalReadings.timestamp);
+  }
+
+  async getFeedWaterRecords(flockId: string, type?: 'feed' | 'water'): Promise<FeedWaterRecord[]> {
+    return this.db.select().from(feedWaterRecords)
+      .where(and(
+        eq(feedWaterRecords.flockId, flockId),
+        type ? eq(feedWaterRecords.type, type) : undefined,
+      ))
+      .orderBy(desc(feedWaterRecords.date));
+  }
+
+  async getFeedWaterRecord(id: string): Promise<FeedWaterRecord | undefined> {
+    const [record] = await this.db.select().from(feedWaterRecords).where(eq(feedWaterRecords.id, id));
+    return record;
+  }
+
+  async createFeedWaterRecord(insertRecord: InsertFeedWater): Promise<FeedWaterRecord> {
+    const [record] = await this.db.insert(feedWaterRecords).values({
+      ...insertRecord,
+      date: insertRecord.date ? new Date(insertRecord.date) : new Date(),
+    }).returning();
+    return record;
+  }
+
+  async updateFeedWaterRecord(id: string, data: UpdateFeedWater): Promise<FeedWaterRecord | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [record] = await tx.select().from(feedWaterRecords).where(eq(feedWaterRecords.id, id));
+      if (!record) return undefined;
+
+      const { reason, date, ...changes } = data;
+      await tx.insert(recordCorrections).values({
+        flockId: record.flockId,
+        recordType: 'feed_water',
+        recordId: record.id,
+        action: 'update',
+        previous: record,
+        reason,
+      });
+      const [updated] = await tx.update(feedWaterRecords)
+        .set({ ...changes, ...(date ? { date: new Date(date) } : {}) })
+        .where(eq(feedWaterRecords.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteFeedWaterRecord(id: string, reason?: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [record] = await tx.delete(feedWaterRecords).where(eq(feedWaterRecords.id, id)).returning();
+      if (!record) return false;
+
+      await tx.insert(recordCorrections).values({
+        flockId: record.flockId,
+        recordType: 'feed_water',
+        recordId: record.id,
+        action: 'delete',
+        previous: record,
+        reason,
+      });
+      return true;
+    });
+  }
+
+  async getWaterMeterReadings(flockId: string): Promise<WaterMeterReading[]> {
+    return this.db.select().from(waterMeterReadings)
+      .where(eq(waterMeterReadings.flockId, flockId))
+      .orderBy(desc(waterMeterReadings.date));
+  }
+
+  async createWaterMeterReading(
+    insertReading: InsertWaterMeterReading & { consumption: number; event: MeterEvent; missingDays: number },
+    dailyWater: { amount: number; date: Date }[],
+  ): Promise<WaterMeterReading> {
+    return this.db.transaction(async (tx) => {
+      const [reading] = await tx.insert(waterMeterReadings).values({
+        ...insertReading,
+        date: insertReading.date ? new Date(insertReading.date) : new Date(),
+      }).returning();
+
+      if (dailyWater.length > 0) {
+        await tx.insert(feedWaterRecords).values(dailyWater.map(day => ({
+          flockId: reading.flockId,
+          type: 'water',
+          amount: day.amount,
+          meterReadingId: reading.id,
+          date: day.date,
+        })));
+      }
+
+      return reading;
+    });
+  }
+
+  async getHealthTreatments(flockId: string): Promise<HealthTreatment[]> {
+    return this.db.select().from(healthTreatments)
+      .where(eq(healthTreatments.flockId, flockId))
+      .orderBy(healthTreatments.plannedAge);
+  }
+
+  async getHealthTreatment(id: string): Promise<HealthTreatment | undefined> {
+    const [treatment] = await this.db.select().from(healthTreatments).where(eq(healthTreatments.id, id));
+    return treatment;
+  }
+
+  async createHealthTreatment(insertTreatment: InsertHealthTreatment): Promise<HealthTreatment> {
+    const [treatment] = await this.db.insert(healthTreatments).values(insertTreatment).returning();
+    return treatment;
+  }
+
+  async updateHealthTreatment(id: string, data: Partial<HealthTreatment>): Promise<HealthTreatment | undefined> {
+    const [treatment] = await this.db.update(healthTreatments)
+      .set(data)
+      .where(eq(healthTreatments.id, id))
+      .returning();
+    return treatment;
+  }
+
+  async getTodaysConsumption(flockId: string): Promise<{ feed: number; water: number }> {
+    const [start, end] = todayRange(await this.getFlockFarm(flockId));
+    const totals = await this.db
+      .select({
+        type: feedWaterRecords.type,
+        total: sql<number>`coalesce(sum(${feedWaterRecords.amount}), 0)`.mapWith(Number),
+      })
+      .from(feedWaterRecords)
+      .where(and(
+        eq(feedWaterRecords.flockId, flockId),
+        gte(feedWaterRecords.date, start),
+        lt(feedWaterRecords.date, end),
+      ))
+      .groupBy(feedWaterRecords.type);
+
+    return {
+      feed: totals.find(t => t.type === 'feed')?.total ?? 0,
+      water: totals.find(t => t.type === 'water')?.total ?? 0,
+    };
+  }
+
+  async getFeedSilos(farmId: string): Promise<FeedSilo[]> {
+    return this.db.select().from(feedSilos)
+      .where(eq(feedSilos.farmId, farmId))
+      .orderBy(feedSilos.name);
+  }
+
+  async getFeedSilo(id: string): Promise<FeedSilo | undefined> {
+    const [silo] = await this.db.select().from(feedSilos).where(eq(feedSilos.id, id));
+    return silo;
+  }
+
+  async createFeedSilo(insertSilo: InsertFeedSilo): Promise<FeedSilo> {
+    const [silo] = await this.db.insert(feedSilos).values(insertSilo).returning();
+    return silo;
+  }
+
+  async getFeedDeliveries(siloId: string): Promise<FeedDelivery[]> {
+    return this.db.select().from(feedDeliveries)
+      .where(eq(feedDeliveries.siloId, siloId))
+      .orderBy(desc(feedDeliveries.date));
+  }
+
+  async createFeedDelivery(insertDelivery: InsertFeedDelivery): Promise<FeedDelivery> {
+    const [delivery] = await this.db.insert(feedDeliveries).values({
+      ...insertDelivery,
+      date: insertDelivery.date ? new Date(insertDelivery.date) : new Date(),
+    }).returning();
+    return delivery;
+  }
+
+  async getFeedSiloTotals(siloId: string): Promise<{ delivered: number; used: number }> {
+    const [delivered] = await this.db
+      .select({ total: sql<number>`coalesce(sum(${feedDeliveries.amount}), 0)`.mapWith(Number) })
+      .from(feedDeliveries)
+      .where(eq(feedDeliveries.siloId, siloId));
+    const [used] = await this.db
+      .select({ total: sql<number>`coalesce(sum(${feedWaterRecords.amount}), 0)`.mapWith(Number) })
+      .from(feedWaterRecords)
+      .where(and(eq(feedWaterRecords.siloId, siloId), eq(feedWaterRecords.type, 'feed')));
+    return { delivered: delivered.total, used: used.total };
+  }
+
+  async getMortalityRecords(flockId: string): Promise<MortalityRecord[]> {
+    return this.db.select().from(mortalityRecords)
+      .where(eq(mortalityRecords.flockId, flockId))
+      .orderBy(desc(mortalityRecords.date));
+  }
+
+  async createMortalityRecord(insertRecord: InsertMortality): Promise<MortalityRecord> {
+    return this.db.transaction(async (tx) => {
+      const [record] = await tx.insert(mortalityRecords).values({
+        ...insertRecord,
+        date: insertRecord.date ? new Date(insertRecord.date) : new Date(),
+      }).returning();
+
+      // Update flock count
+      if (insertRecord.flockId) {
+        await tx.update(flocks)
+          .set({ chickCount: sql`greatest(0, ${flocks.chickCount} - ${insertRecord.deathCount})` })
+          .where(eq(flocks.id, insertRecord.flockId));
+      }
+
+      return record;
+    });
+  }
+
+  async getMortalityRecord(id: string): Promise<MortalityRecord | undefined> {
+    const [record] = await this.db.select().from(mortalityRecords).where(eq(mortalityRecords.id, id));
+    return record;
+  }
+
+  async updateMortalityRecord(id: string, data: UpdateMortality): Promise<MortalityRecord | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [record] = await tx.select().from(mortalityRecords).where(eq(mortalityRecords.id, id));
+      if (!record) return undefined;
+
+      const { reason, date, ...changes } = data;
+      await tx.insert(recordCorrections).values({
+        flockId: record.flockId,
+        recordType: 'mortality',
+        recordId: record.id,
+        action: 'update',
+        previous: record,
+        reason,
+      });
+      const [updated] = await tx.update(mortalityRecords)
+        .set({ ...changes, ...(date ? { date: new Date(date) } : {}) })
+        .where(eq(mortalityRecords.id, id))
+        .returning();
+
+      if (record.flockId && updated.deathCount !== record.deathCount) {
+        await tx.update(flocks)
+          .set({ chickCount: adjustedChickCount(record.deathCount - updated.deathCount) })
+          .where(eq(flocks.id, record.flockId));
+      }
+
+      return updated;
+    });
+  }
+
+  async deleteMortalityRecord(id: string, reason?: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [record] = await tx.delete(mortalityRecords).where(eq(mortalityRecords.id, id)).returning();
+      if (!record) return false;
+
+      await tx.insert(recordCorrections).values({
+        flockId: record.flockId,
+        recordType: 'mortality',
+        recordId: record.id,
+        action: 'delete',
+        previous: record,
+        reason,
+      });
+      if (record.flockId) {
+        await tx.update(flocks)
+          .set({ chickCount: adjustedChickCount(record.deathCount) })
+          .where(eq(flocks.id, record.flockId));
+      }
+      return true;
+    });
+  }
+
+  async getMortalityReasons(farmId: string): Promise<MortalityReasonRecord[]> {
+    return this.db.select().from(mortalityReasons)
+      .where(eq(mortalityReasons.farmId, farmId))
+      .orderBy(mortalityReasons.createdAt);
+  }
+
+  async createMortalityReason(insertReason: InsertMortalityReason): Promise<MortalityReasonRecord> {
+    const [reason] = await this.db.insert(mortalityReasons).values(insertReason).returning();
+    return reason;
+  }
+
+  async getRecordCorrections(flockId: string): Promise<RecordCorrection[]> {
+    return this.db.select().from(recordCorrections)
+      .where(eq(recordCorrections.flockId, flockId))
+      .orderBy(desc(recordCorrections.createdAt));
+  }
+
+  async getFlockAlerts(flockId: string): Promise<FlockAlert[]> {
+    return this.db.select().from(flockAlerts)
+      .where(eq(flockAlerts.flockId, flockId))
+      .orderBy(desc(flockAlerts.date));
+  }
+
+  async saveFlockAlert(alert: InsertFlockAlert): Promise<FlockAlert> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(flockAlerts)
+        .where(and(eq(flockAlerts.flockId, alert.flockId!), eq(flockAlerts.date, alert.date)));
+      if (existing) {
+        const [updated] = await tx.update(flockAlerts)
+          .set({
+            ...alert,
+            dismissedAt: sameSignals(existing.signals, alert.signals) ? existing.dismissedAt : null,
+          })
+          .where(eq(flockAlerts.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [created] = await tx.insert(flockAlerts).values(alert).returning();
+      return created;
+    });
+  }
+
+  async deleteFlockAlert(flockId: string, date: string): Promise<boolean> {
+    const deleted = await this.db.delete(flockAlerts)
+      .where(and(eq(flockAlerts.flockId, flockId), eq(flockAlerts.date, date)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async dismissFlockAlert(id: string): Promise<FlockAlert | undefined> {
+    const [alert] = await this.db.update(flockAlerts)
+      .set({ dismissedAt: new Date() })
+      .where(eq(flockAlerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  async getTodaysMortality(flockId: string): Promise<Record<MortalityType, number>> {
+    const [start, end] = todayRange(await this.getFlockFarm(flockId));
+    const totals = await this.db
+      .select({
+        type: mortalityRecords.type,
+        total: sql<number>`coalesce(sum(${mortalityRecords.deathCount}), 0)`.mapWith(Number),
+      })
+      .from(mortalityRecords)
+      .where(and(
+        eq(mortalityRecords.flockId, flockId),
+        gte(mortalityRecords.date, start),
+        lt(mortalityRecords.date, end),
+      ))
+      .groupBy(mortalityRecords.type);
+    const countOf = (type: MortalityType) => totals.find(t => t.type === type)?.total ?? 0;
+    return { dead: countOf("dead"), culled: countOf("culled") };
+  }
+
+  async getBirdSales(flockId: string): Promise<BirdSale[]> {
+    return this.db.select().from(birdSales)
+      .where(eq(birdSales.flockId, flockId))
+      .orderBy(desc(birdSales.date));
+  }
+
+  async createBirdSale(insertSale: InsertBirdSale): Promise<BirdSale> {
+    return this.db.transaction(async (tx) => {
+      const [sale] = await tx.insert(birdSales).values({
+        ...insertSale,
+        date: insertSale.date ? new Date(insertSale.date) : new Date(),
+      }).returning();
+
+      // Sold birds leave the live count
+      if (insertSale.flockId) {
+        await tx.update(flocks)
+          .set({ chickCount: sql`greatest(0, ${flocks.chickCount} - ${insertSale.headCount})` })
+          .where(eq(flocks.id, insertSale.flockId));
+      }
+
+      return sale;
+    });
+  }
+
+  async getEggProductionRecords(flockId: string): Promise<EggProductionRecord[]> {
+    return this.db.select().from(eggProductionRecords)
+      .where(eq(eggProductionRecords.flockId, flockId))
+      .orderBy(desc(eggProductionRecords.date));
+  }
+
+  async createEggProductionRecord(
+    insertRecord: InsertEggProduction & { henCount: number },
+  ): Promise<EggProductionRecord> {
+    const [record] = await this.db.insert(eggProductionRecords).values({
+      ...insertRecord,
+      date: insertRecord.date ? new Date(insertRecord.date) : new Date(),
+    }).returning();
+    return record;
+  }
+
+  async getWeighSessions(flockId: string): Promise<WeighSession[]> {
+    return this.db.select().from(weighSessions)
+      .where(eq(weighSessions.flockId, flockId))
+      .orderBy(desc(weighSessions.date));
+  }
+
+  async createWeighSession(insertSession: InsertWeighSession): Promise<WeighSession> {
+    const [session] = await this.db.insert(weighSessions).values({
+      flockId: insertSession.flockId,
+      ...weighSessionTotals(insertSession),
+      date: insertSession.date ? new Date(insertSession.date) : new Date(),
+    }).returning();
+    return session;
+  }
+
+  async getTodaysChecklist(farmId: string): Promise<DailyChecklist | undefined> {
+    const [start, end] = todayRange(await this.getFarm(farmId));
+    const [checklist] = await this.db.select().from(dailyChecklists)
+      .where(and(
+        eq(dailyChecklists.farmId, farmId),
+        gte(dailyChecklists.date, start),
+        lt(dailyChecklists.date, end),
+      ));
+    return checklist;
+  }
+
+  async updateChecklist(farmId: string, tasks: { id: string; task: string; completed: boolean }[]): Promise<DailyChecklist> {
+    const existing = await this.getTodaysChecklist(farmId);
+
+    if (existing) {
+      const [updated] = await this.db.update(dailyChecklists)
+        .set({ tasks })
+        .where(eq(dailyChecklists.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [checklist] = await this.db.insert(dailyChecklists)
+      .values({ farmId, date: new Date(), tasks })
+      .returning();
+    return checklist;
+  }
+}
+
+// Use PostgreSQL when DATABASE_URL is configured, otherwise keep everything in
+// memory for quick local runs.
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
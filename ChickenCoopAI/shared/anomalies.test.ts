@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectAnomalies, getAlertSeverity } from "./anomalies";
+import { calculateConsumptionTargets, getBreedTargets, getDefaultBreed } from "./breeds";
+import { addDays } from "./time";
+
+const breed = getDefaultBreed();
+const date = "2026-03-10";
+const birds = 20000;
+const age = 21;
+const at = (day: string, hour = 12) => `${day}T${String(hour).padStart(2, "0")}:00:00Z`;
+const feedTarget = calculateConsumptionTargets(birds, age, breed).feed;
+
+const detect = (input: Partial<Parameters<typeof detectAnomalies>[0]>) => detectAnomalies({
+  date,
+  feedWater: [],
+  mortality: [],
+  readings: [],
+  birds,
+  age,
+  breed,
+  ...input,
+});
+const kinds = (input: Partial<Parameters<typeof detectAnomalies>[0]>) => detect(input).map(signal => signal.kind);
+
+describe("detectAnomalies", () => {
+  it("raises nothing on a day without records", () => {
+    assert.deepEqual(detect({}), []);
+  });
+
+  it("flags feed well below the breed target", () => {
+    assert.deepEqual(kinds({ feedWater: [{ type: "feed", amount: feedTarget * 0.5, date: at(date) }] }), ["feed_below_target"]);
+    assert.deepEqual(kinds({ feedWater: [{ type: "feed", amount: feedTarget, date: at(date) }] }), []);
+  });
+
+  it("only counts the feed of the day being judged", () => {
+    const feedWater = [
+      { type: "feed", amount: feedTarget, date: at(date) },
+      { type: "feed", amount: feedTarget * 0.1, date: at(addDays(date, 1)) },
+    ];
+    assert.deepEqual(kinds({ feedWater }), []);
+  });
+
+  it("flags deaths well above the trailing daily mean", () => {
+    const baseline = Array.from({ length: 7 }, (_, i) => ({ deathCount: 5, date: at(addDays(date, -(i + 1))) }));
+    assert.deepEqual(kinds({ mortality: [...baseline, { deathCount: 30, date: at(date) }] }), ["mortality_spike"]);
+    assert.deepEqual(kinds({ mortality: [...baseline, { deathCount: 8, date: at(date) }] }), []);
+  });
+
+  it("ignores a spike too small to matter in the flock", () => {
+    assert.deepEqual(kinds({ mortality: [{ deathCount: 3, date: at(date) }] }), []);
+  });
+
+  it("flags a sharp drop in water on the day itself", () => {
+    const previous = [1, 2, 3].map(i => ({ type: "water", amount: 4000, date: at(addDays(date, -i)) }));
+    assert.deepEqual(kinds({ feedWater: [...previous, { type: "water", amount: 3000, date: at(date) }] }), ["water_drop"]);
+    assert.deepEqual(kinds({ date: addDays(date, -1), feedWater: previous }), []);
+  });
+
+  it("flags a day with no water at all", () => {
+    const feedWater = [
+      ...[1, 2, 3].map(i => ({ type: "water", amount: 4000, date: at(addDays(date, -i)) })),
+      { type: "feed", amount: feedTarget, date: at(date) },
+    ];
+    const [signal] = detect({ feedWater });
+    assert.equal(signal.kind, "water_drop");
+    assert.match(signal.message, /No water recorded/);
+  });
+
+  it("flags readings outside the breed comfort band", () => {
+    const { tempMax } = getBreedTargets(breed, age);
+    const readings = [
+      { insideTemp: tempMax, timestamp: at(date, 9) },
+      { insideTemp: tempMax + 5, timestamp: at(date, 15) },
+    ];
+    const [signal] = detect({ readings });
+    assert.equal(signal.kind, "temperature_excursion");
+    assert.match(signal.message, /1 of 2 readings/);
+  });
+});
+
+describe("getAlertSeverity", () => {
+  it("raises several signals on one day as critical", () => {
+    assert.equal(getAlertSeverity([{ kind: "water_drop", message: "" }]), "warning");
+    assert.equal(getAlertSeverity([
+      { kind: "water_drop", message: "" },
+      { kind: "feed_below_target", message: "" },
+    ]), "critical");
+  });
+});
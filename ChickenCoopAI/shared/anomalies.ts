@@ -0,0 +1,119 @@
+import { addDays, getLocalDate } from "./time";
+import { analyzeWaterIntake } from "./water";
+import { calculateConsumptionTargets, getBreedTargets, type BreedProfile } from "./breeds";
+import { round } from "./math";
+
+export const anomalyKinds = ["water_drop", "mortality_spike", "feed_below_target", "temperature_excursion"] as const;
+export type AnomalyKind = typeof anomalyKinds[number];
+
+// One signal that fired, with the figures behind it spelled out for the farmer
+export interface AnomalySignal {
+  kind: AnomalyKind;
+  message: string;
+}
+
+// A single signal is a warning; several firing on the same day usually share a
+// cause (disease, a failed drinker line, heat) and are raised as critical.
+export type AlertSeverity = "warning" | "critical";
+
+export const ANOMALY_LABELS: Record<AnomalyKind, string> = {
+  water_drop: "Water intake drop",
+  mortality_spike: "Mortality spike",
+  feed_below_target: "Feed below target",
+  temperature_excursion: "Temperature excursion",
+};
+
+// Deaths more than twice the trailing daily mean, and at least 0.05% of the
+// birds so a handful of deaths in a small flock does not fire
+const MORTALITY_BASELINE_DAYS = 7;
+const MORTALITY_SPIKE_FACTOR = 2;
+const MORTALITY_SPIKE_MIN_PERCENT = 0.05;
+// Feed recorded below 85% of the breed target for the birds alive
+const FEED_SHORTFALL_RATIO = 0.85;
+// Inside temperature more than 2 °C outside the breed comfort band
+const TEMPERATURE_TOLERANCE = 2;
+
+export function getAlertSeverity(signals: AnomalySignal[]): AlertSeverity {
+  return signals.length > 1 ? "critical" : "warning";
+}
+
+// Checks one farm day of a flock against its own recent series and the breed targets
+export function detectAnomalies(input: {
+  date: string; // "YYYY-MM-DD" farm day
+  feedWater: { type: string; amount: number; date: Date | string | null; meterReadingId?: string | null }[];
+  mortality: { deathCount: number; date: Date | string | null }[];
+  readings: { insideTemp: number | null; timestamp: Date | string | null }[];
+  birds: number;
+  age: number;
+  breed: Pick<BreedProfile, "curve">;
+  timeZone?: string;
+  dayStart?: number;
+}): AnomalySignal[] {
+  const { date, birds, age, breed, timeZone = "UTC", dayStart = 0 } = input;
+  const localDate = (value: Date | string) => getLocalDate(value, timeZone, dayStart);
+  const onDate = (value: Date | string | null) => !!value && localDate(value) === date;
+  const signals: AnomalySignal[] = [];
+
+  const intake = analyzeWaterIntake(
+    input.feedWater.filter(r => r.date && localDate(r.date) <= date),
+    birds,
+    timeZone,
+    dayStart,
+  );
+  if (intake.latest?.date === date && intake.noWater) {
+    signals.push({
+      kind: "water_drop",
+      message: "No water recorded for the day; check the water lines and drinkers",
+    });
+  } else if (intake.latest?.date === date && intake.sharpDrop) {
+    signals.push({
+      kind: "water_drop",
+      message: `Water intake of ${intake.latest.water.toLocaleString()} L is ${intake.dropPercent}% below the 3-day average`,
+    });
+  }
+
+  const deathsOn = (day: string) => input.mortality
+    .filter(r => r.date && localDate(r.date) === day)
+    .reduce((sum, r) => sum + r.deathCount, 0);
+  const deaths = deathsOn(date);
+  const baselineDays = Array.from({ length: MORTALITY_BASELINE_DAYS }, (_, i) => addDays(date, -(i + 1)));
+  const baseline = baselineDays.reduce((sum, day) => sum + deathsOn(day), 0) / MORTALITY_BASELINE_DAYS;
+  if (
+    deaths > baseline * MORTALITY_SPIKE_FACTOR
+    && birds > 0
+    && (deaths / birds) * 100 >= MORTALITY_SPIKE_MIN_PERCENT
+  ) {
+    signals.push({
+      kind: "mortality_spike",
+      message: `${deaths} deaths against ${round(baseline, 1)} per day over the previous ${MORTALITY_BASELINE_DAYS} days`,
+    });
+  }
+
+  // No feed recorded yet is missing data rather than birds off feed
+  const feed = input.feedWater
+    .filter(r => r.type === "feed" && onDate(r.date))
+    .reduce((sum, r) => sum + r.amount, 0);
+  const feedTarget = calculateConsumptionTargets(birds, age, breed).feed;
+  if (feed > 0 && feed < feedTarget * FEED_SHORTFALL_RATIO) {
+    signals.push({
+      kind: "feed_below_target",
+      message: `${round(feed, 1)} kg of feed is ${Math.round((1 - feed / feedTarget) * 100)}% below the ${feedTarget} kg target`,
+    });
+  }
+
+  const { tempMin, tempMax } = getBreedTargets(breed, age);
+  const temperatures = input.readings
+    .filter(r => r.insideTemp !== null && onDate(r.timestamp))
+    .map(r => r.insideTemp!);
+  const outside = temperatures.filter(t => t < tempMin - TEMPERATURE_TOLERANCE || t > tempMax + TEMPERATURE_TOLERANCE);
+  if (outside.length > 0) {
+    const worst = outside.reduce((a, b) =>
+      Math.max(tempMin - a, a - tempMax) >= Math.max(tempMin - b, b - tempMax) ? a : b);
+    signals.push({
+      kind: "temperature_excursion",
+      message: `Inside temperature reached ${worst} °C against the ${tempMin}–${tempMax} °C target (${outside.length} of ${temperatures.length} readings)`,
+    });
+  }
+
+  return signals;
+}
@@ -0,0 +1,247 @@
+import { z } from "zod";
+
+// One row of a breed performance table. Breeder handbooks publish these per
+// day or per week; targets for the days in between are interpolated.
+export const breedCurvePointSchema = z.object({
+  day: z.number().int().min(0),
+  weight: z.number().positive(), // g per bird
+  dailyGain: z.number().min(0).optional(), // g per bird per day, derived from weight when omitted
+  feedIntake: z.number().min(0), // g per bird per day
+  waterIntake: z.number().min(0).optional(), // ml per bird per day, 1.8 × feed when omitted
+  fcr: z.number().min(0), // cumulative kg feed per kg live weight
+  tempMin: z.number(), // °C
+  tempMax: z.number(), // °C
+  humidity: z.number().min(0).max(100).optional(), // % RH, 65 when omitted
+});
+
+export const breedCurveSchema = z.array(breedCurvePointSchema).min(2, "A curve needs at least two days");
+
+// Laying performance by age in weeks, for layer breeds
+export const layingCurvePointSchema = z.object({
+  week: z.number().int().min(0),
+  henDay: z.number().min(0).max(100), // % hen-day production
+  eggWeight: z.number().positive(), // g
+});
+
+export const layingCurveSchema = z.array(layingCurvePointSchema).min(2, "A laying curve needs at least two weeks");
+
+export const breedTypes = ["broiler", "layer"] as const;
+
+export type BreedType = typeof breedTypes[number];
+export type BreedCurvePointInput = z.infer<typeof breedCurvePointSchema>;
+export type BreedCurvePoint = Required<BreedCurvePointInput>;
+export type LayingCurvePoint = z.infer<typeof layingCurveSchema>[number];
+
+export interface BreedProfile {
+  id: string;
+  name: string;
+  type: BreedType;
+  curve: BreedCurvePoint[];
+  layingCurve?: LayingCurvePoint[] | null;
+  builtIn: boolean;
+}
+
+// Daily targets for one age, interpolated from the breed curve
+export type BreedTargets = Omit<BreedCurvePoint, "day">;
+
+const WATER_TO_FEED_RATIO = 1.8;
+const DEFAULT_HUMIDITY = 65;
+
+// Sorts the curve by day and fills in the optional columns
+export function normalizeBreedCurve(points: BreedCurvePointInput[]): BreedCurvePoint[] {
+  const sorted = [...points].sort((a, b) => a.day - b.day);
+  return sorted.map((point, i) => {
+    const next = sorted[i + 1] ?? point;
+    const previous = sorted[i - 1] ?? point;
+    const [from, to] = next !== point ? [point, next] : [previous, point];
+    const slope = to.day > from.day ? (to.weight - from.weight) / (to.day - from.day) : 0;
+    return {
+      ...point,
+      dailyGain: point.dailyGain ?? Math.round(slope),
+      waterIntake: point.waterIntake ?? Math.round(point.feedIntake * WATER_TO_FEED_RATIO),
+      humidity: point.humidity ?? DEFAULT_HUMIDITY,
+    };
+  });
+}
+
+// Targets beyond the last day of the curve hold at the last row
+export function getBreedTargets(profile: Pick<BreedProfile, "curve">, age: number): BreedTargets {
+  const { curve } = profile;
+  const upper = curve.findIndex(point => point.day >= age);
+  if (upper <= 0) {
+    const { day, ...targets } = curve[upper === 0 ? 0 : curve.length - 1];
+    return targets;
+  }
+
+  const a = curve[upper - 1];
+  const b = curve[upper];
+  const t = (age - a.day) / (b.day - a.day);
+  const lerp = (key: keyof BreedTargets) => a[key] + (b[key] - a[key]) * t;
+
+  return {
+    weight: Math.round(lerp("weight")),
+    dailyGain: Math.round(lerp("dailyGain")),
+    feedIntake: Math.round(lerp("feedIntake")),
+    waterIntake: Math.round(lerp("waterIntake")),
+    fcr: Math.round(lerp("fcr") * 100) / 100,
+    tempMin: Math.round(lerp("tempMin") * 10) / 10,
+    tempMax: Math.round(lerp("tempMax") * 10) / 10,
+    humidity: Math.round(lerp("humidity")),
+  };
+}
+
+// Flock-wide daily feed (kg) and water (L) targets at the given age
+export function calculateConsumptionTargets(chickCount: number, age: number, breed: Pick<BreedProfile, "curve">) {
+  const targets = getBreedTargets(breed, age);
+
+  return {
+    feed: Math.round((targets.feedIntake * chickCount / 1000) * 100) / 100,
+    water: Math.round((targets.waterIntake * chickCount / 1000) * 100) / 100,
+  };
+}
+
+// Expected production for a layer flock; null when the breed has no laying curve.
+// Before the first week of the curve the flock is still in rearing.
+export function getLayingTargets(
+  profile: Pick<BreedProfile, "layingCurve">,
+  ageWeeks: number,
+): Omit<LayingCurvePoint, "week"> | null {
+  const curve = profile.layingCurve;
+  if (!curve?.length) return null;
+  if (ageWeeks < curve[0].week) return { henDay: 0, eggWeight: curve[0].eggWeight };
+
+  const upper = curve.findIndex(point => point.week >= ageWeeks);
+  if (upper <= 0) {
+    const { week, ...targets } = curve[upper === 0 ? 0 : curve.length - 1];
+    return targets;
+  }
+
+  const a = curve[upper - 1];
+  const b = curve[upper];
+  const t = (ageWeeks - a.week) / (b.week - a.week);
+  return {
+    henDay: Math.round((a.henDay + (b.henDay - a.henDay) * t) * 10) / 10,
+    eggWeight: Math.round((a.eggWeight + (b.eggWeight - a.eggWeight) * t) * 10) / 10,
+  };
+}
+
+const CSV_COLUMNS = Object.keys(breedCurvePointSchema.shape) as (keyof BreedCurvePointInput)[];
+
+// Parses a curve exported from a spreadsheet. The header row names the columns
+// (day, weight, feedIntake, fcr, tempMin, tempMax and optionally dailyGain,
+// waterIntake, humidity) in any order; separators may be commas or semicolons.
+export function parseBreedCurveCsv(text: string): BreedCurvePointInput[] {
+  const [header, ...rows] = text.trim().split(/\r?\n/).filter(line => line.trim());
+  if (!header) return [];
+
+  const columns = header.split(/[,;]/).map(name => {
+    const column = CSV_COLUMNS.find(c => c.toLowerCase() === name.trim().toLowerCase());
+    if (!column) throw new Error(`Unknown column "${name.trim()}"`);
+    return column;
+  });
+
+  return rows.map(row => {
+    const values = row.split(/[,;]/);
+    const point: Record<string, number> = {};
+    columns.forEach((column, i) => {
+      const value = values[i]?.trim();
+      if (value) point[column] = parseFloat(value);
+    });
+    return point as BreedCurvePointInput;
+  });
+}
+
+// Accepts either a bare array of curve rows or an object with a "curve" array
+// and, for layers, an optional "layingCurve" array
+export function parseBreedCurveJson(text: string): {
+  curve: BreedCurvePointInput[];
+  layingCurve?: LayingCurvePoint[];
+} {
+  const data = JSON.parse(text);
+  return Array.isArray(data) ? { curve: data } : { curve: data.curve, layingCurve: data.layingCurve };
+}
+
+function builtIn(
+  id: string,
+  name: string,
+  type: BreedType,
+  curve: BreedCurvePointInput[],
+  layingCurve?: LayingCurvePoint[],
+): BreedProfile {
+  return { id, name, type, curve: normalizeBreedCurve(curve), layingCurve, builtIn: true };
+}
+
+// Weekly figures after the published breeder objectives (broilers as-hatched;
+// the layer rears to 18 weeks, then follows its laying curve)
+export const BUILT_IN_BREEDS: BreedProfile[] = [
+  builtIn("ross-308", "Ross 308", "broiler", [
+    { day: 0, weight: 44, feedIntake: 12, fcr: 0, tempMin: 32, tempMax: 34, humidity: 60 },
+    { day: 7, weight: 211, feedIntake: 40, fcr: 0.86, tempMin: 29, tempMax: 31, humidity: 60 },
+    { day: 14, weight: 567, feedIntake: 88, fcr: 1.03, tempMin: 26, tempMax: 28, humidity: 65 },
+    { day: 21, weight: 1087, feedIntake: 134, fcr: 1.19, tempMin: 24, tempMax: 26, humidity: 65 },
+    { day: 28, weight: 1730, feedIntake: 178, fcr: 1.33, tempMin: 21, tempMax: 23, humidity: 70 },
+    { day: 35, weight: 2440, feedIntake: 213, fcr: 1.46, tempMin: 19, tempMax: 21, humidity: 70 },
+    { day: 42, weight: 3170, feedIntake: 238, fcr: 1.58, tempMin: 18, tempMax: 20, humidity: 70 },
+    { day: 49, weight: 3850, feedIntake: 252, fcr: 1.70, tempMin: 18, tempMax: 20, humidity: 70 },
+    { day: 56, weight: 4450, feedIntake: 258, fcr: 1.82, tempMin: 18, tempMax: 20, humidity: 70 },
+  ]),
+  builtIn("cobb-500", "Cobb 500", "broiler", [
+    { day: 0, weight: 42, feedIntake: 12, fcr: 0, tempMin: 32, tempMax: 33, humidity: 60 },
+    { day: 7, weight: 190, feedIntake: 37, fcr: 0.86, tempMin: 29, tempMax: 30, humidity: 60 },
+    { day: 14, weight: 510, feedIntake: 82, fcr: 1.04, tempMin: 26, tempMax: 27, humidity: 65 },
+    { day: 21, weight: 1010, feedIntake: 128, fcr: 1.21, tempMin: 23, tempMax: 25, humidity: 65 },
+    { day: 28, weight: 1640, feedIntake: 172, fcr: 1.36, tempMin: 21, tempMax: 23, humidity: 70 },
+    { day: 35, weight: 2300, feedIntake: 205, fcr: 1.49, tempMin: 19, tempMax: 21, humidity: 70 },
+    { day: 42, weight: 2950, feedIntake: 228, fcr: 1.61, tempMin: 18, tempMax: 20, humidity: 70 },
+    { day: 49, weight: 3550, feedIntake: 243, fcr: 1.73, tempMin: 18, tempMax: 20, humidity: 70 },
+    { day: 56, weight: 4090, feedIntake: 250, fcr: 1.85, tempMin: 18, tempMax: 20, humidity: 70 },
+  ]),
+  builtIn("slow-growing", "Slow-growing (JA757 type)", "broiler", [
+    { day: 0, weight: 40, feedIntake: 10, fcr: 0, tempMin: 32, tempMax: 34, humidity: 60 },
+    { day: 7, weight: 130, feedIntake: 24, fcr: 1.0, tempMin: 29, tempMax: 31, humidity: 60 },
+    { day: 14, weight: 320, feedIntake: 48, fcr: 1.3, tempMin: 26, tempMax: 28, humidity: 65 },
+    { day: 21, weight: 600, feedIntake: 72, fcr: 1.5, tempMin: 24, tempMax: 26, humidity: 65 },
+    { day: 28, weight: 930, feedIntake: 96, fcr: 1.7, tempMin: 21, tempMax: 23, humidity: 70 },
+    { day: 35, weight: 1300, feedIntake: 118, fcr: 1.85, tempMin: 19, tempMax: 21, humidity: 70 },
+    { day: 42, weight: 1680, feedIntake: 136, fcr: 2.0, tempMin: 18, tempMax: 20, humidity: 70 },
+    { day: 49, weight: 2050, feedIntake: 150, fcr: 2.15, tempMin: 18, tempMax: 20, humidity: 70 },
+    { day: 56, weight: 2400, feedIntake: 160, fcr: 2.3, tempMin: 18, tempMax: 20, humidity: 70 },
+    { day: 63, weight: 2700, feedIntake: 166, fcr: 2.45, tempMin: 18, tempMax: 20, humidity: 70 },
+  ]),
+  builtIn("layer-pullet", "Brown Layer", "layer", [
+    { day: 0, weight: 37, feedIntake: 9, fcr: 0, tempMin: 33, tempMax: 35, humidity: 60 },
+    { day: 7, weight: 75, feedIntake: 14, fcr: 1.2, tempMin: 30, tempMax: 32, humidity: 60 },
+    { day: 14, weight: 130, feedIntake: 20, fcr: 1.6, tempMin: 27, tempMax: 29, humidity: 60 },
+    { day: 28, weight: 280, feedIntake: 33, fcr: 2.1, tempMin: 22, tempMax: 24, humidity: 60 },
+    { day: 42, weight: 470, feedIntake: 44, fcr: 2.6, tempMin: 19, tempMax: 21, humidity: 60 },
+    { day: 56, weight: 660, feedIntake: 52, fcr: 3.1, tempMin: 18, tempMax: 20, humidity: 60 },
+    { day: 70, weight: 850, feedIntake: 58, fcr: 3.6, tempMin: 18, tempMax: 20, humidity: 60 },
+    { day: 84, weight: 1030, feedIntake: 63, fcr: 4.1, tempMin: 18, tempMax: 20, humidity: 60 },
+    { day: 98, weight: 1200, feedIntake: 68, fcr: 4.6, tempMin: 18, tempMax: 20, humidity: 60 },
+    { day: 112, weight: 1350, feedIntake: 75, fcr: 5.1, tempMin: 18, tempMax: 20, humidity: 60 },
+    { day: 126, weight: 1500, feedIntake: 88, fcr: 5.6, tempMin: 18, tempMax: 20, humidity: 60 },
+  ], [
+    { week: 18, henDay: 10, eggWeight: 45 },
+    { week: 19, henDay: 35, eggWeight: 48 },
+    { week: 20, henDay: 60, eggWeight: 51 },
+    { week: 21, henDay: 80, eggWeight: 53 },
+    { week: 22, henDay: 88, eggWeight: 55 },
+    { week: 24, henDay: 93, eggWeight: 58 },
+    { week: 26, henDay: 94, eggWeight: 59.5 },
+    { week: 30, henDay: 93, eggWeight: 61 },
+    { week: 40, henDay: 91, eggWeight: 63 },
+    { week: 50, henDay: 87, eggWeight: 64.5 },
+    { week: 60, henDay: 83, eggWeight: 65.5 },
+    { week: 70, henDay: 77, eggWeight: 66 },
+    { week: 80, henDay: 71, eggWeight: 66.5 },
+  ]),
+];
+
+export const DEFAULT_BREED_ID = "ross-308";
+
+// Fallback for flocks whose profile is missing or still loading
+export function getDefaultBreed(type: BreedType = "broiler"): BreedProfile {
+  return type === "broiler"
+    ? BUILT_IN_BREEDS.find(b => b.id === DEFAULT_BREED_ID)!
+    : BUILT_IN_BREEDS.find(b => b.type === type)!;
+}
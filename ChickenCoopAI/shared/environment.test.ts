@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getBreedTargets, getDefaultBreed } from "./breeds";
+import {
+  AIR_QUALITY_MAX_AGE_HOURS,
+  EQUIPMENT_SPECS,
+  VENTILATION_CYCLE_SECONDS,
+  calculateEnvironment,
+  getFanCapacity,
+  type HouseEquipment,
+} from "./environment";
+
+const breed = getDefaultBreed();
+const house = { length: 100, width: 12, height: 3, wallUValue: 0.6, roofUValue: 0.4 };
+
+const fan = (diameter: number, currentSetting = 20): HouseEquipment =>
+  ({ type: "fan", isActive: true, currentSetting, specification: { diameter } });
+const heater = (power: number, currentSetting: number): HouseEquipment =>
+  ({ type: "heater", isActive: true, currentSetting, specification: { power } });
+const inlet = (surface: number, currentSetting = 30): HouseEquipment =>
+  ({ type: "inlet", isActive: true, currentSetting, specification: { surface } });
+
+const baseInput = {
+  house,
+  equipment: [fan(130), fan(130), fan(50), heater(80, 50), inlet(6)],
+  birds: { count: 20000, weight: 1.2 },
+  outsideTemp: 5,
+  outsideHumidity: 70,
+  windSpeed: 10,
+  age: 21,
+  breed,
+};
+
+describe("calculateEnvironment", () => {
+  it("gives the same result for the same house, flock age and breed", () => {
+    assert.deepEqual(calculateEnvironment(baseInput), calculateEnvironment({ ...baseInput }));
+  });
+
+  it("balances heat gains against the losses", () => {
+    const { heatBalance } = calculateEnvironment(baseInput);
+    const gains = heatBalance.birdHeat + heatBalance.heaterOutput;
+    const losses = heatBalance.ventilationLoss + heatBalance.wallLoss + heatBalance.roofLoss;
+    assert.ok(Math.abs(gains - losses) < 0.5, `${gains} kW in, ${losses} kW out`);
+    assert.equal(heatBalance.heaterOutput, 80 * 0.5 * EQUIPMENT_SPECS.heater.efficiencyFactor);
+  });
+
+  it("judges temperature against the breed targets at the flock's age", () => {
+    for (const age of [0, 21, 35]) {
+      const { tempMin, tempMax } = getBreedTargets(breed, age);
+      const result = calculateEnvironment({ ...baseInput, equipment: [fan(130, 100)], birds: undefined, age });
+      const low = result.recommendations.find(r => r.action === "temperature_low");
+      assert.ok(low, `no low temperature warning at day ${age}`);
+      assert.match(low.message, new RegExp(`\\(${tempMin}-${tempMax}°C\\)`));
+    }
+  });
+
+  it("leaves out minimum ventilation without a flock", () => {
+    assert.equal(calculateEnvironment({ ...baseInput, birds: undefined }).minimumVentilation, null);
+  });
+});
+
+describe("minimum ventilation", () => {
+  it("runs just enough of the largest fans to carry away CO₂ and moisture", () => {
+    const { minimumVentilation } = calculateEnvironment(baseInput);
+    assert.ok(minimumVentilation);
+    const { requiredAirflow, co2Airflow, moistureAirflow, fans, fanCapacity, onSeconds, offSeconds } = minimumVentilation;
+    assert.equal(requiredAirflow, Math.max(co2Airflow, moistureAirflow ?? 0));
+    assert.equal(fans, 1);
+    assert.equal(fanCapacity, Math.round(getFanCapacity(130)));
+    assert.ok(onSeconds !== null && offSeconds !== null);
+    assert.equal(onSeconds + offSeconds, VENTILATION_CYCLE_SECONDS);
+    assert.ok(fanCapacity * onSeconds / VENTILATION_CYCLE_SECONDS >= requiredAirflow);
+  });
+
+  it("has no timer without fans", () => {
+    const { minimumVentilation } = calculateEnvironment({ ...baseInput, equipment: [heater(80, 50)] });
+    assert.ok(minimumVentilation);
+    assert.equal(minimumVentilation.fans, 0);
+    assert.equal(minimumVentilation.onSeconds, null);
+    assert.equal(minimumVentilation.inletOpening, null);
+  });
+});
+
+describe("air quality recommendations", () => {
+  const airQuality = { co2: 4500, ammonia: null, pm25: null, pm10: null };
+
+  it("sizes the extra ventilation across every installed fan", () => {
+    const equipment = Array.from({ length: 6 }, () => fan(130));
+    const { recommendations } = calculateEnvironment({ ...baseInput, equipment, airQuality });
+    const co2 = recommendations.find(r => r.action === "co2_high");
+    assert.ok(co2);
+    assert.match(co2.message, /run [2-6] fans \d+s on \/ \d+s off/);
+  });
+
+  it("says so when even all fans running continuously fall short", () => {
+    const equipment = [fan(50), fan(50)];
+    const { recommendations } = calculateEnvironment({
+      ...baseInput,
+      equipment,
+      birds: { count: 20000, weight: 2 },
+      airQuality: { ...airQuality, co2: 9000 },
+    });
+    const co2 = recommendations.find(r => r.action === "co2_high");
+    assert.ok(co2);
+    assert.match(co2.message, /even all 2 fans running continuously/);
+  });
+
+  it("leaves a stale reading out of the ventilation advice and says so", () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+    const at = (hoursAgo: number) => new Date(now.getTime() - hoursAgo * 60 * 60 * 1000);
+    const actions = (timestamp: Date) => calculateEnvironment({ ...baseInput, airQuality: { ...airQuality, timestamp }, now })
+      .recommendations.map(r => r.action);
+
+    assert.ok(actions(at(1)).includes("co2_high"));
+    assert.ok(!actions(at(1)).includes("air_quality_stale"));
+
+    const stale = calculateEnvironment({ ...baseInput, airQuality: { ...airQuality, timestamp: at(AIR_QUALITY_MAX_AGE_HOURS + 20) }, now });
+    assert.ok(!stale.recommendations.some(r => r.action === "co2_high"));
+    const notice = stale.recommendations.find(r => r.action === "air_quality_stale");
+    assert.ok(notice);
+    assert.match(notice.message, /26 hours old/);
+  });
+});
@@ -0,0 +1,599 @@
+import { z } from "zod";
+import { getBreedTargets, type BreedProfile } from "./breeds";
+import { round } from "./math";
+
+// Equipment specifications for calculations
+export const EQUIPMENT_SPECS = {
+  fan: {
+    airVelocity: 7, // m/s through the fan opening at working static pressure
+  },
+  heater: {
+    efficiencyFactor: 0.8, // share of rated output delivered to the house air
+  },
+  inlet: {
+    windCoefficient: 0.3, // share of wind speed driven through an open inlet (diagonal wind)
+  },
+};
+
+const AIR_DENSITY = 1.2; // kg/m³
+const AIR_SPECIFIC_HEAT = 1006; // J/kg·K
+const LATENT_HEAT = 2.45e6; // J per kg of water evaporated
+const ATMOSPHERIC_PRESSURE = 101325; // Pa
+// Leakage through a closed house, air changes per hour
+const INFILTRATION_ACH = 0.3;
+
+// Minimum ventilation holds CO₂ below this, with margin under the 3000 ppm
+// welfare limit, against outside air at about 400 ppm
+const CO2_TARGET_PPM = 2500;
+const CO2_OUTSIDE_PPM = 400;
+// m³ of CO₂ breathed out per hour for each kW of total bird heat (CIGR, 2002)
+const CO2_PER_KW = 0.185;
+// Inlet air speed that throws incoming air along the ceiling to mix before it
+// reaches the birds
+const INLET_AIR_SPEED = 4.5; // m/s
+// Minimum ventilation fans run on a repeating timer
+export const VENTILATION_CYCLE_SECONDS = 300;
+// Shorter runs barely clear the fan housing before stopping
+const MIN_FAN_RUN_SECONDS = 30;
+
+// Welfare limits for house air. CO₂ and NH₃ follow the EU broiler directive
+// (2007/43/EC); dust follows the exposure limits for poultry houses of Donham
+// et al. (2000), respirable for PM2.5 and inhalable for PM10.
+export const AIR_QUALITY_LIMITS = {
+  co2: 3000, // ppm
+  ammonia: 20, // ppm
+  pm25: 230, // µg/m³
+  pm10: 3400, // µg/m³
+};
+// Ammonia is ventilated down to half the limit; outside air carries next to none
+const AMMONIA_TARGET_PPM = 10;
+// Gas and dust levels follow the ventilation within hours, so an older
+// reading no longer says how much air the house needs
+export const AIR_QUALITY_MAX_AGE_HOURS = 6;
+
+// Wind chill felt by fully feathered birds at 1 m/s, growing with the square
+// root of air speed. Chicks feel half as much again until they feather out.
+const WIND_CHILL_FACTOR = 3.5; // °C
+const FEATHERED_AGE = 28; // days
+const CHICK_WIND_CHILL_MULTIPLIER = 1.5;
+// Air moving at body temperature no longer cools
+const BODY_TEMP = 41; // °C
+// Still air for the birds; leakage alone does not chill
+const MIN_AIR_VELOCITY = 0.1; // m/s
+// Index points above the limit at which heat stress turns severe
+const SEVERE_HEAT_STRESS_MARGIN = 3;
+
+// Used when the farm has no weather reading yet
+export const DEFAULT_OUTSIDE_CONDITIONS = {
+  outsideTemp: 22, // °C
+  outsideHumidity: 45, // %
+  windSpeed: 12, // km/h
+};
+
+// Outside conditions default to the farm's latest reading on the server
+export const calculateEnvironmentSchema = z.object({
+  farmId: z.string(),
+  flockId: z.string().optional(),
+  flockAge: z.number().int().min(0).optional(), // used when no flock is given
+  outsideTemp: z.number().optional(),
+  outsideHumidity: z.number().min(0).max(100).optional(),
+  windSpeed: z.number().min(0).optional(),
+});
+
+export type CalculateEnvironment = z.infer<typeof calculateEnvironmentSchema>;
+
+export interface HouseEquipment {
+  type: string; // 'fan' | 'heater' | 'inlet'
+  isActive: boolean | null;
+  currentSetting: number | null; // percentage
+  specification: { diameter?: number; power?: number; surface?: number } | null;
+}
+
+export interface EnvironmentRecommendation {
+  type: "warning" | "info" | "success";
+  title: string;
+  message: string;
+  action: string;
+}
+
+// Each term of the steady-state balance in kW, so the predicted temperature can
+// be explained: gains from birds and heaters equal the losses to ventilation
+// and through the walls and roof.
+export interface HeatBalance {
+  birdHeat: number; // sensible heat from the flock
+  heaterOutput: number;
+  ventilationLoss: number;
+  wallLoss: number;
+  roofLoss: number;
+  airflow: number; // m³/h, fans or wind through inlets plus leakage
+  airChangesPerHour: number;
+  moisture: number; // kg/h of water vapour breathed out by the flock
+}
+
+// Latest sensor values; null where the house has no sensor
+export interface AirQuality {
+  co2: number | null;
+  ammonia: number | null;
+  pm25: number | null;
+  pm10: number | null;
+  timestamp?: Date | string | null; // when measured; taken as current when left out
+}
+
+// Air exchange the flock needs whatever the temperature, to carry away the CO₂
+// and moisture it gives off, and the timer setting that delivers it
+export interface MinimumVentilation {
+  biomass: number; // kg live weight
+  co2Airflow: number; // m³/h to hold CO₂ at the target
+  moistureAirflow: number | null; // m³/h to hold humidity at the target; null when outside air is too damp to help
+  requiredAirflow: number; // m³/h, the larger of the two
+  fans: number; // fans on the timer, largest first
+  fanCapacity: number; // m³/h of those fans at full speed
+  onSeconds: number | null; // per cycle; null without fans
+  offSeconds: number | null;
+  inletOpening: number | null; // % of inlet area while the fans run; null without inlets
+}
+
+// What the birds feel rather than what the thermometer reads: air speed at
+// bird level cools them, humidity stops them panting heat away
+export interface ThermalComfort {
+  airVelocity: number; // m/s along the house from the running fans
+  windChill: number; // °C
+  effectiveTemp: number; // °C
+  thi: number; // temperature-humidity index, on the effective temperature
+  thiLimit: number; // index at the top of the comfort band for this age
+}
+
+export interface EnvironmentalCalculation {
+  insideTemp: number;
+  insideHumidity: number;
+  heatBalance: HeatBalance;
+  comfort: ThermalComfort;
+  minimumVentilation: MinimumVentilation | null; // null without a flock
+  recommendations: EnvironmentRecommendation[];
+  volume: number;
+  surfaceArea: number;
+}
+
+// m³/h moved by a fan of the given diameter (cm) at full speed
+export function getFanCapacity(diameter: number): number {
+  return Math.PI * (diameter / 200) ** 2 * EQUIPMENT_SPECS.fan.airVelocity * 3600;
+}
+
+// Total heat of a broiler in W from its live weight in kg (CIGR, 2002)
+export function getBirdHeatOutput(weight: number): number {
+  return 10.62 * weight ** 0.75;
+}
+
+// Share of bird heat given off as sensible heat; the rest leaves as water
+// vapour, more of it the warmer the house.
+function getSensibleShare(insideTemp: number): number {
+  return Math.min(0.9, Math.max(0.2, 0.61 * (1 + 0.02 * (20 - insideTemp))));
+}
+
+// Saturation vapour pressure in Pa (Magnus formula)
+function getSaturationPressure(temp: number): number {
+  return 610.94 * Math.exp((17.625 * temp) / (temp + 243.04));
+}
+
+// kg of water vapour per kg of dry air
+function getHumidityRatio(temp: number, humidity: number): number {
+  const vapour = (humidity / 100) * getSaturationPressure(temp);
+  return (0.622 * vapour) / (ATMOSPHERIC_PRESSURE - vapour);
+}
+
+function getRelativeHumidity(temp: number, ratio: number): number {
+  const vapour = (ratio * ATMOSPHERIC_PRESSURE) / (0.622 + ratio);
+  return Math.min(100, (vapour / getSaturationPressure(temp)) * 100);
+}
+
+// Wet-bulb temperature from dry bulb and relative humidity (Stull, 2011)
+function getWetBulbTemperature(temp: number, humidity: number): number {
+  return temp * Math.atan(0.151977 * Math.sqrt(humidity + 8.313659))
+    + Math.atan(temp + humidity)
+    - Math.atan(humidity - 1.676331)
+    + 0.00391838 * humidity ** 1.5 * Math.atan(0.023101 * humidity)
+    - 4.686035;
+}
+
+// Temperature-humidity index for broilers, weighting dry bulb 0.85 and wet
+// bulb 0.15 (Tao & Xin, 2003)
+function getTemperatureHumidityIndex(temp: number, humidity: number): number {
+  return 0.85 * temp + 0.15 * getWetBulbTemperature(temp, humidity);
+}
+
+// °C the birds feel below the air temperature at the given air speed
+function getWindChill(airVelocity: number, age: number, temp: number): number {
+  if (airVelocity <= MIN_AIR_VELOCITY) {
+    return 0;
+  }
+  const feathering = age >= FEATHERED_AGE
+    ? 1
+    : CHICK_WIND_CHILL_MULTIPLIER - (CHICK_WIND_CHILL_MULTIPLIER - 1) * (age / FEATHERED_AGE);
+  const cooling = Math.min(1, Math.max(0, (BODY_TEMP - temp) / 10));
+  return WIND_CHILL_FACTOR * Math.sqrt(airVelocity) * feathering * cooling;
+}
+
+// Installed fan capacities in m³/h at full speed, largest first
+function getFanCapacities(equipment: HouseEquipment[]): number[] {
+  return equipment
+    .filter(eq => eq.type === "fan")
+    .map(fan => getFanCapacity(fan.specification?.diameter || 0))
+    .filter(capacity => capacity > 0)
+    .sort((a, b) => b - a);
+}
+
+// Just enough of the largest fans to cover the airflow at full speed, and how
+// long they run in each cycle; the timer is clamped to a whole cycle when even
+// all of them fall short
+function sizeFanTimer(capacities: number[], airflow: number) {
+  let fans = 0;
+  let capacity = 0;
+  while (fans < capacities.length && capacity < airflow) {
+    capacity += capacities[fans++];
+  }
+
+  let onSeconds: number | null = null;
+  if (capacity > 0) {
+    const share = Math.min(1, airflow / capacity);
+    onSeconds = Math.min(
+      VENTILATION_CYCLE_SECONDS,
+      Math.max(MIN_FAN_RUN_SECONDS, Math.ceil((share * VENTILATION_CYCLE_SECONDS) / 5) * 5),
+    );
+  }
+  return { fans, capacity, onSeconds };
+}
+
+// Minimum ventilation for the flock kept at the target temperature and
+// humidity. The fans run for a share of each cycle; the inlets open just
+// enough to keep incoming air at mixing speed while they do.
+export function calculateMinimumVentilation(input: {
+  birds: { count: number; weight: number }; // weight in kg
+  equipment: HouseEquipment[];
+  outsideTemp: number;
+  outsideHumidity: number;
+  targetTemp: number;
+  targetHumidity: number;
+}): MinimumVentilation {
+  const { birds, equipment, outsideTemp, outsideHumidity, targetTemp, targetHumidity } = input;
+  const totalHeat = birds.count * getBirdHeatOutput(birds.weight); // W
+
+  const co2Airflow = (CO2_PER_KW * totalHeat / 1000) / ((CO2_TARGET_PPM - CO2_OUTSIDE_PPM) / 1e6);
+
+  const moisture = (totalHeat * (1 - getSensibleShare(targetTemp)) / LATENT_HEAT) * 3600; // kg/h
+  const ratioRise = getHumidityRatio(targetTemp, targetHumidity) - getHumidityRatio(outsideTemp, outsideHumidity);
+  const moistureAirflow = ratioRise > 0 ? moisture / (AIR_DENSITY * ratioRise) : null;
+
+  const requiredAirflow = Math.max(co2Airflow, moistureAirflow ?? 0);
+
+  const { fans, capacity: fanCapacity, onSeconds } = sizeFanTimer(getFanCapacities(equipment), requiredAirflow);
+
+  const inletArea = equipment
+    .filter(eq => eq.type === "inlet")
+    .reduce((sum, inlet) => sum + (inlet.specification?.surface || 0), 0);
+  const inletOpening = inletArea > 0 && fanCapacity > 0
+    ? Math.min(100, Math.round((fanCapacity / 3600 / INLET_AIR_SPEED / inletArea) * 100))
+    : null;
+
+  return {
+    biomass: Math.round(birds.count * birds.weight),
+    co2Airflow: Math.round(co2Airflow),
+    moistureAirflow: moistureAirflow === null ? null : Math.round(moistureAirflow),
+    requiredAirflow: Math.round(requiredAirflow),
+    fans,
+    fanCapacity: Math.round(fanCapacity),
+    onSeconds,
+    offSeconds: onSeconds === null ? null : VENTILATION_CYCLE_SECONDS - onSeconds,
+    inletOpening,
+  };
+}
+
+// Inside conditions predicted from a steady-state heat balance of the house,
+// judged against the breed targets at the flock's age. The server endpoint and
+// the dashboard both call this, so their figures cannot drift apart.
+export function calculateEnvironment(input: {
+  house: { length: number; width: number; height: number; wallUValue: number; roofUValue: number };
+  equipment: HouseEquipment[];
+  birds?: { count: number; weight: number }; // weight in kg
+  airQuality?: AirQuality;
+  outsideTemp: number;
+  outsideHumidity: number;
+  windSpeed: number; // km/h
+  age: number;
+  breed: Pick<BreedProfile, "name" | "curve">;
+  now?: Date;
+}): EnvironmentalCalculation {
+  const { house, equipment, birds, airQuality, outsideTemp, outsideHumidity, windSpeed, age, breed, now } = input;
+  const volume = house.length * house.width * house.height;
+  const surfaceArea = 2 * (house.length * house.width + house.length * house.height + house.width * house.height);
+  const wallArea = 2 * (house.length + house.width) * house.height;
+  const roofArea = house.length * house.width;
+
+  const heaterOutput = equipment
+    .filter(eq => eq.type === "heater" && eq.isActive)
+    .reduce((sum, heater) => sum + (heater.specification?.power || 0) * (heater.currentSetting || 0) / 100, 0)
+    * EQUIPMENT_SPECS.heater.efficiencyFactor * 1000;
+
+  // Fans draw their air through the inlets, so wind only adds ventilation
+  // beyond what the fans already move
+  const fanAirflow = equipment
+    .filter(eq => eq.type === "fan" && eq.isActive)
+    .reduce((sum, fan) =>
+      sum + getFanCapacity(fan.specification?.diameter || 0) * (fan.currentSetting || 0) / 100, 0);
+  const windAirflow = equipment
+    .filter(eq => eq.type === "inlet" && eq.isActive)
+    .reduce((sum, inlet) => {
+      const openArea = (inlet.specification?.surface || 0) * (inlet.currentSetting || 0) / 100;
+      return sum + openArea * EQUIPMENT_SPECS.inlet.windCoefficient * (windSpeed / 3.6) * 3600;
+    }, 0);
+  const airflow = Math.max(fanAirflow, windAirflow) + volume * INFILTRATION_ACH;
+
+  // Conductances in W/K: heat carried out by the air exchange, and through the
+  // walls and roof. Floor losses to the ground are small and left out.
+  const ventilationConductance = (AIR_DENSITY * AIR_SPECIFIC_HEAT * airflow) / 3600;
+  const wallConductance = house.wallUValue * wallArea;
+  const roofConductance = house.roofUValue * roofArea;
+  const conductance = ventilationConductance + wallConductance + roofConductance;
+
+  // The sensible share depends on the inside temperature it helps set, so
+  // settle the two together
+  const birdTotalHeat = birds ? birds.count * getBirdHeatOutput(birds.weight) : 0;
+  let insideTemp = outsideTemp;
+  for (let i = 0; i < 20; i++) {
+    insideTemp = outsideTemp + (birdTotalHeat * getSensibleShare(insideTemp) + heaterOutput) / conductance;
+  }
+  const birdHeat = birdTotalHeat * getSensibleShare(insideTemp);
+  const rise = insideTemp - outsideTemp;
+
+  // Vapour from the birds is carried out by the same air exchange
+  const moisture = (birdTotalHeat - birdHeat) / LATENT_HEAT; // kg/s
+  const insideRatio = getHumidityRatio(outsideTemp, outsideHumidity) + moisture / (AIR_DENSITY * airflow / 3600);
+  const insideHumidity = getRelativeHumidity(insideTemp, insideRatio);
+
+  const heatBalance: HeatBalance = {
+    birdHeat: round(birdHeat / 1000, 1),
+    heaterOutput: round(heaterOutput / 1000, 1),
+    ventilationLoss: round((ventilationConductance * rise) / 1000, 1),
+    wallLoss: round((wallConductance * rise) / 1000, 1),
+    roofLoss: round((roofConductance * rise) / 1000, 1),
+    airflow: Math.round(airflow),
+    airChangesPerHour: round(airflow / volume, 1),
+    moisture: round(moisture * 3600, 1),
+  };
+
+  const targets = getBreedTargets(breed, age);
+
+  // Tunnel air speed: the fans pull the whole airflow along the house
+  const airVelocity = fanAirflow / 3600 / (house.width * house.height);
+  const windChill = getWindChill(airVelocity, age, insideTemp);
+  const effectiveTemp = insideTemp - windChill;
+  const wetBulb = getWetBulbTemperature(insideTemp, insideHumidity);
+  const comfort: ThermalComfort = {
+    airVelocity: round(airVelocity, 2),
+    windChill: round(windChill, 1),
+    effectiveTemp: round(effectiveTemp, 1),
+    thi: round(0.85 * effectiveTemp + 0.15 * wetBulb, 1),
+    thiLimit: round(getTemperatureHumidityIndex(targets.tempMax, targets.humidity), 1),
+  };
+
+  const minimumVentilation = birds
+    ? calculateMinimumVentilation({
+      birds,
+      equipment,
+      outsideTemp,
+      outsideHumidity,
+      targetTemp: (targets.tempMin + targets.tempMax) / 2,
+      targetHumidity: targets.humidity,
+    })
+    : null;
+
+  return {
+    insideTemp: round(insideTemp, 1),
+    insideHumidity: round(insideHumidity, 1),
+    heatBalance,
+    comfort,
+    minimumVentilation,
+    recommendations: generateEnvironmentRecommendations({
+      insideTemp,
+      insideHumidity,
+      comfort,
+      heaterOutput: heaterOutput / 1000,
+      airflow,
+      minimumVentilation,
+      airQuality,
+      equipment,
+      age,
+      breed,
+      now,
+    }),
+    volume,
+    surfaceArea: round(surfaceArea, 1),
+  };
+}
+
+export function generateEnvironmentRecommendations(input: {
+  insideTemp: number;
+  insideHumidity: number;
+  comfort: ThermalComfort;
+  heaterOutput: number; // kW
+  airflow: number; // m³/h
+  minimumVentilation: MinimumVentilation | null;
+  airQuality?: AirQuality;
+  equipment: HouseEquipment[];
+  age: number;
+  breed: Pick<BreedProfile, "name" | "curve">;
+  now?: Date;
+}): EnvironmentRecommendation[] {
+  const { insideTemp, insideHumidity, comfort, heaterOutput, airflow, minimumVentilation, airQuality, equipment, age, breed, now = new Date() } = input;
+  const targets = getBreedTargets(breed, age);
+  const range = `${targets.tempMin}-${targets.tempMax}°C`;
+  const recommendations: EnvironmentRecommendation[] = [];
+
+  if (insideTemp < targets.tempMin) {
+    recommendations.push({
+      type: "warning",
+      title: "Temperature Below Target",
+      message: `Inside temperature ${insideTemp.toFixed(1)}°C is ${(targets.tempMin - insideTemp).toFixed(1)}°C below target range (${range}). Consider increasing heater output or reducing ventilation.`,
+      action: "temperature_low",
+    });
+  } else if (insideTemp > targets.tempMax) {
+    recommendations.push({
+      type: "warning",
+      title: "Temperature Above Target",
+      message: `Inside temperature ${insideTemp.toFixed(1)}°C is ${(insideTemp - targets.tempMax).toFixed(1)}°C above target range (${range}). Consider increasing fan speed or opening inlets.`,
+      action: "temperature_high",
+    });
+  } else {
+    recommendations.push({
+      type: "success",
+      title: "Temperature Optimal",
+      message: `Inside temperature ${insideTemp.toFixed(1)}°C is within the ${range} range for ${age}-day-old ${breed.name} birds.`,
+      action: "temperature_good",
+    });
+  }
+
+  // The thermometer can sit inside the band while the birds are too hot (humid
+  // air) or too cold (young birds in fast air)
+  if (comfort.thi > comfort.thiLimit) {
+    const severe = comfort.thi > comfort.thiLimit + SEVERE_HEAT_STRESS_MARGIN;
+    recommendations.push({
+      type: "warning",
+      title: severe ? "Severe Heat Stress" : "Heat Stress Risk",
+      message: `Heat stress index ${comfort.thi} is above the ${comfort.thiLimit} limit for ${age}-day-old birds at ${insideHumidity.toFixed(0)}% humidity${insideTemp <= targets.tempMax ? `, although ${insideTemp.toFixed(1)}°C is within the target range` : ""}. ${severe ? "Run all tunnel fans, cut lighting and feed during the heat, and check drinkers." : "Increase air speed over the birds and avoid adding moisture."}`,
+      action: "heat_stress",
+    });
+  }
+
+  if (comfort.windChill > 0 && comfort.effectiveTemp < targets.tempMin && insideTemp >= targets.tempMin) {
+    recommendations.push({
+      type: "warning",
+      title: "Chilling from Air Speed",
+      message: `Air moving at ${comfort.airVelocity} m/s makes ${insideTemp.toFixed(1)}°C feel like ${comfort.effectiveTemp}°C to ${age}-day-old birds, below the ${targets.tempMin}°C minimum. Reduce fan speed or switch to minimum ventilation.`,
+      action: "wind_chill",
+    });
+  }
+
+  if (insideHumidity < targets.humidity - 10) {
+    recommendations.push({
+      type: "info",
+      title: "Humidity Low",
+      message: `Humidity ${insideHumidity.toFixed(1)}% is below the ${targets.humidity}% target. Consider adding water sources or reducing ventilation.`,
+      action: "humidity_low",
+    });
+  } else if (insideHumidity > targets.humidity + 15) {
+    recommendations.push({
+      type: "info",
+      title: "Humidity High",
+      message: `Humidity ${insideHumidity.toFixed(1)}% is above the ${targets.humidity}% target. Increase ventilation to reduce moisture.`,
+      action: "humidity_high",
+    });
+  }
+
+  if (heaterOutput > 10 && insideTemp > targets.tempMax) {
+    recommendations.push({
+      type: "info",
+      title: "Energy Optimization",
+      message: "Reduce heater output by 15-20% to save energy while maintaining optimal temperature.",
+      action: "optimize_energy",
+    });
+  }
+
+  // Airflow under the minimum lets CO₂ and moisture build up even when the
+  // house is warm enough
+  if (minimumVentilation && airflow < minimumVentilation.requiredAirflow * 0.9) {
+    const timer = minimumVentilation.onSeconds !== null
+      ? ` Run ${minimumVentilation.fans} fan${minimumVentilation.fans === 1 ? "" : "s"} ${minimumVentilation.onSeconds}s on / ${minimumVentilation.offSeconds}s off.`
+      : "";
+    recommendations.push({
+      type: "warning",
+      title: "Below Minimum Ventilation",
+      message: `Air exchange of ${Math.round(airflow).toLocaleString()} m³/h is below the ${minimumVentilation.requiredAirflow.toLocaleString()} m³/h this flock needs to clear CO₂ and moisture.${timer}`,
+      action: "minimum_ventilation",
+    });
+  }
+
+  // A gas builds up in inverse proportion to the air exchange, so the measured
+  // level says how much more air the house needs to bring it back to target,
+  // sized across every installed fan rather than only those on the timer
+  const fanCapacities = getFanCapacities(equipment);
+  const installedCapacity = fanCapacities.reduce((sum, capacity) => sum + capacity, 0);
+  const raiseVentilation = (measured: number, target: number, outside: number) => {
+    const needed = airflow * (measured - outside) / (target - outside);
+    const increase = ` Increase minimum ventilation to about ${Math.round(needed).toLocaleString()} m³/h`;
+    if (fanCapacities.length === 0) {
+      return `${increase}.`;
+    }
+    if (needed > installedCapacity) {
+      const allFans = fanCapacities.length === 1 ? "the only fan" : `all ${fanCapacities.length} fans`;
+      return `${increase}: even ${allFans} running continuously (${Math.round(installedCapacity).toLocaleString()} m³/h) cannot reach it, so more fan capacity is needed.`;
+    }
+    const { fans, onSeconds } = sizeFanTimer(fanCapacities, needed);
+    return `${increase}: run ${fans} fan${fans === 1 ? "" : "s"} ${onSeconds}s on / ${VENTILATION_CYCLE_SECONDS - onSeconds!}s off.`;
+  };
+
+  // A stale reading is reported as such rather than driving the ventilation advice
+  const readingAge = airQuality?.timestamp
+    ? (now.getTime() - new Date(airQuality.timestamp).getTime()) / (60 * 60 * 1000)
+    : 0;
+  const stale = readingAge > AIR_QUALITY_MAX_AGE_HOURS;
+  const { co2, ammonia, pm25, pm10 } = airQuality && !stale ? airQuality : { co2: null, ammonia: null, pm25: null, pm10: null };
+  if (stale && airQuality && [airQuality.co2, airQuality.ammonia, airQuality.pm25, airQuality.pm10].some(v => v !== null)) {
+    recommendations.push({
+      type: "info",
+      title: "Air Quality Reading Out of Date",
+      message: `The latest CO₂, ammonia and dust reading is ${Math.floor(readingAge)} hours old, so it is left out of the ventilation advice. Take a fresh reading to check the air.`,
+      action: "air_quality_stale",
+    });
+  }
+
+  if (co2 !== null && co2 > AIR_QUALITY_LIMITS.co2) {
+    recommendations.push({
+      type: "warning",
+      title: "CO₂ Above Limit",
+      message: `CO₂ at ${Math.round(co2)} ppm is above the ${AIR_QUALITY_LIMITS.co2} ppm welfare limit.${raiseVentilation(co2, CO2_TARGET_PPM, CO2_OUTSIDE_PPM)}`,
+      action: "co2_high",
+    });
+  }
+
+  if (ammonia !== null && ammonia > AIR_QUALITY_LIMITS.ammonia) {
+    recommendations.push({
+      type: "warning",
+      title: "Ammonia Above Limit",
+      message: `NH₃ at ${Math.round(ammonia)} ppm is above the ${AIR_QUALITY_LIMITS.ammonia} ppm welfare limit.${raiseVentilation(ammonia, AMMONIA_TARGET_PPM, 0)} Check for wet litter around drinkers.`,
+      action: "ammonia_high",
+    });
+  }
+
+  const dustOverLimit = (pm25 !== null && pm25 > AIR_QUALITY_LIMITS.pm25)
+    || (pm10 !== null && pm10 > AIR_QUALITY_LIMITS.pm10);
+  if (dustOverLimit) {
+    recommendations.push({
+      type: "warning",
+      title: "Dust Above Limit",
+      message: `Dust (PM2.5 ${pm25 ?? "—"} µg/m³, PM10 ${pm10 ?? "—"} µg/m³) is above the ${AIR_QUALITY_LIMITS.pm25}/${AIR_QUALITY_LIMITS.pm10} µg/m³ limits. Keep litter from drying out and increase minimum ventilation.`,
+      action: "dust_high",
+    });
+  }
+
+  const activeFans = equipment.filter(eq => eq.type === "fan" && eq.isActive);
+  const activeHeaters = equipment.filter(eq => eq.type === "heater" && eq.isActive);
+
+  if (activeFans.length > 1 && insideTemp >= targets.tempMin && insideTemp <= targets.tempMax) {
+    recommendations.push({
+      type: "info",
+      title: "Equipment Optimization",
+      message: "Consider running fewer fans at higher speed for better energy efficiency.",
+      action: "optimize_fans",
+    });
+  }
+
+  if (activeHeaters.length === 0 && insideTemp < targets.tempMin - 2) {
+    recommendations.push({
+      type: "warning",
+      title: "Heating Required",
+      message: "Temperature is critically low. Activate heaters immediately.",
+      action: "activate_heating",
+    });
+  }
+
+  return recommendations;
+}
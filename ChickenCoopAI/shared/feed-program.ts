@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { getBreedTargets, type BreedProfile } from "./breeds";
+import { round } from "./math";
+
+// A phase is fed until the flock reaches untilAge days or has eaten
+// untilKgPerBird, whichever comes first. The last phase runs to harvest.
+export const feedPhaseSchema = z.object({
+  diet: z.string().min(1),
+  untilAge: z.number().int().positive().optional(),
+  untilKgPerBird: z.number().positive().optional(),
+  pricePerTon: z.number().min(0).optional(),
+});
+
+export const feedProgramSchema = z.array(feedPhaseSchema).min(1).refine(
+  phases => phases.slice(0, -1).every(phase => phase.untilAge || phase.untilKgPerBird),
+  "Every phase except the last needs an end age or kg per bird",
+);
+
+export type FeedPhase = z.infer<typeof feedPhaseSchema>;
+
+export const DEFAULT_FEED_PROGRAM: FeedPhase[] = [
+  { diet: "Pre-starter", untilAge: 10 },
+  { diet: "Starter", untilAge: 24 },
+  { diet: "Grower", untilAge: 35 },
+  { diet: "Finisher" },
+];
+
+// Feed records from before a flock had a program carry no diet
+export const UNTAGGED_DIET = "Untagged";
+
+export interface FeedProgramStatus {
+  phaseIndex: number;
+  diet: string;
+  kgPerBird: number; // cumulative feed per bird placed
+  // Forecast from the breed intake curve; null during the last phase
+  nextChangeover: { diet: string; age: number } | null;
+}
+
+export interface PhaseUsage {
+  diet: string;
+  kg: number;
+  kgPerBird: number;
+  cost: number | null; // null when the phase has no price per ton
+}
+
+const MAX_FORECAST_DAYS = 120;
+
+function phaseEnded(phase: FeedPhase, age: number, kgPerBird: number): boolean {
+  return (phase.untilAge !== undefined && age >= phase.untilAge)
+    || (phase.untilKgPerBird !== undefined && kgPerBird >= phase.untilKgPerBird);
+}
+
+export function getCurrentPhaseIndex(program: FeedPhase[], age: number, kgPerBird: number): number {
+  const index = program.findIndex(phase => !phaseEnded(phase, age, kgPerBird));
+  return index === -1 ? program.length - 1 : index;
+}
+
+export function getFeedProgramStatus(
+  program: FeedPhase[],
+  breed: BreedProfile,
+  age: number,
+  kgPerBird: number,
+): FeedProgramStatus {
+  const phaseIndex = getCurrentPhaseIndex(program, age, kgPerBird);
+  const phase = program[phaseIndex];
+  const next = program[phaseIndex + 1];
+
+  let nextChangeover: FeedProgramStatus["nextChangeover"] = null;
+  if (next) {
+    let eaten = kgPerBird;
+    for (let day = age; day <= age + MAX_FORECAST_DAYS; day++) {
+      if (phaseEnded(phase, day, eaten)) {
+        nextChangeover = { diet: next.diet, age: day };
+        break;
+      }
+      eaten += getBreedTargets(breed, day).feedIntake / 1000;
+    }
+  }
+
+  return { phaseIndex, diet: phase.diet, kgPerBird: round(kgPerBird, 2), nextChangeover };
+}
+
+// Feed used per diet, in program order followed by diets no longer in the program
+export function summarizeFeedByPhase(
+  records: { amount: number; diet: string | null }[],
+  program: FeedPhase[],
+  placed: number,
+): PhaseUsage[] {
+  const totals = new Map<string, number>(program.map(phase => [phase.diet, 0]));
+  for (const record of records) {
+    const diet = record.diet ?? UNTAGGED_DIET;
+    totals.set(diet, (totals.get(diet) ?? 0) + record.amount);
+  }
+
+  return Array.from(totals, ([diet, kg]) => {
+    const price = program.find(phase => phase.diet === diet)?.pricePerTon;
+    return {
+      diet,
+      kg: round(kg, 1),
+      kgPerBird: placed > 0 ? round(kg / placed, 3) : 0,
+      cost: price !== undefined ? round((kg / 1000) * price, 2) : null,
+    };
+  });
+}
@@ -0,0 +1,61 @@
+import { addDays, getLocalDate } from "./time";
+
+export const treatmentKinds = ["vaccination", "medication"] as const;
+export const treatmentRoutes = ["drinking_water", "spray", "injection"] as const;
+
+export type TreatmentKind = typeof treatmentKinds[number];
+export type TreatmentRoute = typeof treatmentRoutes[number];
+
+export const TREATMENT_ROUTE_LABELS: Record<TreatmentRoute, string> = {
+  drinking_water: "Drinking water",
+  spray: "Spray",
+  injection: "Injection",
+};
+
+// planned: not yet due; due: planned for today; overdue: planned age has passed;
+// withdrawal: given and birds may not yet be slaughtered; given: done and clear
+export type TreatmentStatus = "planned" | "due" | "overdue" | "withdrawal" | "given";
+
+interface TreatmentTiming {
+  plannedAge: number;
+  withdrawalDays: number;
+  administeredAt: Date | string | null;
+}
+
+// First farm day on which treated birds may be slaughtered,
+// or null when the treatment has not been given
+export function getWithdrawalEnd(treatment: TreatmentTiming, timeZone = "UTC", dayStart = 0): string | null {
+  if (!treatment.administeredAt) return null;
+  return addDays(getLocalDate(treatment.administeredAt, timeZone, dayStart), treatment.withdrawalDays);
+}
+
+export function getTreatmentStatus(
+  treatment: TreatmentTiming,
+  flockAge: number,
+  timeZone = "UTC",
+  now: Date = new Date(),
+  dayStart = 0,
+): TreatmentStatus {
+  const withdrawalEnd = getWithdrawalEnd(treatment, timeZone, dayStart);
+  if (withdrawalEnd) {
+    return getLocalDate(now, timeZone, dayStart) < withdrawalEnd ? "withdrawal" : "given";
+  }
+  if (treatment.plannedAge < flockAge) return "overdue";
+  if (treatment.plannedAge === flockAge) return "due";
+  return "planned";
+}
+
+// The treatment whose withdrawal period runs latest past the harvest date, if any
+export function findBlockingWithdrawal<T extends TreatmentTiming>(
+  treatments: T[],
+  harvestDate: Date | string,
+  timeZone = "UTC",
+  dayStart = 0,
+): { treatment: T; withdrawalEnd: string } | undefined {
+  const harvestDay = getLocalDate(harvestDate, timeZone, dayStart);
+  return treatments
+    .map(treatment => ({ treatment, withdrawalEnd: getWithdrawalEnd(treatment, timeZone, dayStart) }))
+    .filter((entry): entry is { treatment: T; withdrawalEnd: string } =>
+      !!entry.withdrawalEnd && harvestDay < entry.withdrawalEnd)
+    .sort((a, b) => b.withdrawalEnd.localeCompare(a.withdrawalEnd))[0];
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { getLocalDate, getLocalHour } from "./time";
+import { round } from "./math";
+
+export const historyIntervals = ["raw", "hour", "day"] as const;
+export type HistoryInterval = typeof historyIntervals[number];
+
+// Query string of the history endpoints. Pagination applies after aggregation.
+export const historyQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  interval: z.enum(historyIntervals).default("day"),
+  limit: z.coerce.number().int().min(1).max(1000).default(500),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+export interface HistoryPage<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// One bucket per period; "raw" keeps every record as its own bucket keyed by timestamp
+export type HistoryBucket<K extends string> = { period: string; count: number } & Record<K, number | null>;
+
+// Daily periods are farm days; hourly periods stay on the wall clock
+export function getPeriod(date: Date | string, interval: HistoryInterval, timeZone = "UTC", dayStart = 0): string {
+  if (interval === "day") return getLocalDate(date, timeZone, dayStart);
+  if (interval === "hour") return getLocalHour(date, timeZone);
+  return new Date(date).toISOString();
+}
+
+// Keeps the periods that overlap the query range, so running totals can be
+// computed over the whole cycle before the range is applied
+export function filterPeriods<T extends { period: string }>(
+  buckets: T[],
+  query: Pick<HistoryQuery, "from" | "to" | "interval">,
+  timeZone = "UTC",
+  dayStart = 0,
+): T[] {
+  const first = query.from && getPeriod(query.from, query.interval, timeZone, dayStart);
+  const last = query.to && getPeriod(query.to, query.interval, timeZone, dayStart);
+  return buckets.filter(b => (!first || b.period >= first) && (!last || b.period <= last));
+}
+
+// Sums suit counts and amounts; means suit sensor values. Null values are
+// skipped, and a field with no values in a period stays null.
+export function aggregateByPeriod<K extends string>(
+  items: { date: Date | string; values: Record<K, number | null> }[],
+  fields: readonly K[],
+  mode: "sum" | "mean",
+  interval: HistoryInterval,
+  timeZone = "UTC",
+  dayStart = 0,
+): HistoryBucket<K>[] {
+  const buckets = new Map<string, { count: number; totals: Map<K, { sum: number; n: number }> }>();
+  for (const item of items) {
+    const period = getPeriod(item.date, interval, timeZone, dayStart);
+    const bucket = buckets.get(period) ?? { count: 0, totals: new Map() };
+    bucket.count++;
+    for (const field of fields) {
+      const value = item.values[field];
+      if (value === null || value === undefined) continue;
+      const total = bucket.totals.get(field) ?? { sum: 0, n: 0 };
+      total.sum += value;
+      total.n++;
+      bucket.totals.set(field, total);
+    }
+    buckets.set(period, bucket);
+  }
+
+  return Array.from(buckets, ([period, { count, totals }]) => {
+    const values = {} as Record<K, number | null>;
+    for (const field of fields) {
+      const total = totals.get(field);
+      values[field] = total ? round(mode === "sum" ? total.sum : total.sum / total.n, 2) : null;
+    }
+    return { period, count, ...values };
+  }).sort((a, b) => a.period.localeCompare(b.period));
+}
+
+export type ConsumptionHistoryBucket = HistoryBucket<"feed" | "water"> & {
+  birds: number; // alive at the end of the period
+  feedPerBird: number | null; // g
+  waterPerBird: number | null; // ml
+};
+
+// Deaths and culls are tallied separately; "cumulative" counts deaths only
+export type MortalityHistoryBucket = HistoryBucket<"deaths" | "culls"> & {
+  cumulative: number;
+  cumulativePercent: number; // of birds placed
+  cumulativeCulls: number;
+  cumulativeCullsPercent: number; // of birds placed
+};
+
+export type ReadingHistoryBucket = HistoryBucket<"insideTemp" | "insideHumidity" | "outsideTemp" | "outsideHumidity">;
+
+export function paginate<T>(items: T[], query: Pick<HistoryQuery, "limit" | "offset">): HistoryPage<T> {
+  return {
+    items: items.slice(query.offset, query.offset + query.limit),
+    total: items.length,
+    limit: query.limit,
+    offset: query.offset,
+  };
+}
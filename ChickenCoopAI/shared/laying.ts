@@ -0,0 +1,63 @@
+import { getLayingTargets, type BreedProfile } from "./breeds";
+import { round } from "./math";
+
+export interface LayingPerformance {
+  ageWeeks: number;
+  // Latest collection
+  henDay: number | null; // % of hens alive that day
+  henHoused: number | null; // % of hens originally housed
+  eggWeight: number | null; // g
+  secondGrade: number | null; // % cracked, dirty or floor eggs
+  // Trailing seven days
+  weekHenDay: number | null; // %
+  feedPerDozen: number | null; // kg feed per dozen eggs
+  // Whole flock life
+  eggsPerHenHoused: number;
+  target: { henDay: number; eggWeight: number } | null; // from the breed laying curve
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function calculateLayingPerformance(input: {
+  records: {
+    totalEggs: number;
+    crackedEggs: number;
+    dirtyEggs: number;
+    floorEggs: number;
+    eggWeight: number | null;
+    henCount: number;
+    date: Date | string | null;
+  }[];
+  feedRecords: { amount: number; date: Date | string | null }[];
+  hensHoused: number;
+  ageDays: number;
+  breed: BreedProfile;
+  now?: Date;
+}): LayingPerformance {
+  const { records, feedRecords, hensHoused, ageDays, breed, now = new Date() } = input;
+  const ageWeeks = Math.floor(ageDays / 7);
+  const since = now.getTime() - WEEK_MS;
+  const inLastWeek = (date: Date | string | null) => !!date && new Date(date).getTime() > since;
+
+  const latest = [...records].sort((a, b) => new Date(b.date!).getTime() - new Date(a.date!).getTime())[0];
+  const week = records.filter(r => inLastWeek(r.date));
+  const weekEggs = week.reduce((sum, r) => sum + r.totalEggs, 0);
+  const weekHenDays = week.reduce((sum, r) => sum + r.henCount, 0);
+  const weekFeed = feedRecords.filter(r => inLastWeek(r.date)).reduce((sum, r) => sum + r.amount, 0);
+
+  return {
+    ageWeeks,
+    henDay: latest && latest.henCount > 0 ? round((latest.totalEggs / latest.henCount) * 100, 1) : null,
+    henHoused: latest && hensHoused > 0 ? round((latest.totalEggs / hensHoused) * 100, 1) : null,
+    eggWeight: latest?.eggWeight ?? null,
+    secondGrade: latest && latest.totalEggs > 0
+      ? round(((latest.crackedEggs + latest.dirtyEggs + latest.floorEggs) / latest.totalEggs) * 100, 1)
+      : null,
+    weekHenDay: weekHenDays > 0 ? round((weekEggs / weekHenDays) * 100, 1) : null,
+    feedPerDozen: weekEggs > 0 && weekFeed > 0 ? round(weekFeed / (weekEggs / 12), 2) : null,
+    eggsPerHenHoused: hensHoused > 0
+      ? round(records.reduce((sum, r) => sum + r.totalEggs, 0) / hensHoused, 1)
+      : 0,
+    target: getLayingTargets(breed, ageDays / 7),
+  };
+}
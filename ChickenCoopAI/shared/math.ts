@@ -0,0 +1,4 @@
+// Rounds to a fixed number of decimal places for display and storage
+export function round(value: number, decimals: number): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BUILT_IN_MORTALITY_REASONS,
+  analyzeMortality,
+  getWeeklyMortalityStandard,
+  type MortalityType,
+} from "./mortality";
+
+const batchDate = "2026-03-01T00:00:00Z";
+const onAge = (age: number) => new Date(Date.parse(batchDate) + (age * 24 + 12) * 60 * 60 * 1000);
+const loss = (age: number, deathCount: number, type: MortalityType, reasonCode: string | null) =>
+  ({ deathCount, type, reasonCode, cause: null, date: onAge(age) });
+
+const records = [
+  loss(2, 60, "dead", "sds"),
+  loss(5, 40, "culled", "leg-problems"),
+  loss(9, 20, "dead", "sds"),
+  loss(12, 10, "dead", null),
+  loss(14, 5, "culled", "runts"),
+];
+
+const analyze = (age: number) => analyzeMortality({
+  records: records.filter(r => r.date <= onAge(age)),
+  reasons: BUILT_IN_MORTALITY_REASONS,
+  placed: 10000,
+  batchDate,
+  type: "broiler",
+  now: onAge(age),
+});
+
+describe("getWeeklyMortalityStandard", () => {
+  it("holds at the last week of the standard", () => {
+    assert.equal(getWeeklyMortalityStandard("broiler", 1), 1.0);
+    assert.equal(getWeeklyMortalityStandard("layer", 9), 0.1);
+    assert.equal(getWeeklyMortalityStandard("layer", 30), 0.1);
+  });
+});
+
+describe("analyzeMortality", () => {
+  it("keeps culls apart from birds found dead", () => {
+    const analysis = analyze(14);
+    assert.equal(analysis.losses, 135);
+    assert.equal(analysis.dead, 90);
+    assert.equal(analysis.culled, 45);
+    assert.equal(analysis.cumulativePercent, 1.35);
+    assert.equal(analysis.cullPercent, 0.45);
+  });
+
+  it("compares each week with the breed standard", () => {
+    const { weeks, standardCumulative } = analyze(14);
+    assert.deepEqual(weeks.map(w => [w.week, w.deaths, w.percent, w.standard, w.cumulativePercent]), [
+      [1, 100, 1, 1.0, 1],
+      [2, 30, 0.3, 0.4, 1.3],
+      [3, 5, 0.05, 0.35, 1.35],
+    ]);
+    // Day 14 is the first day of week 3, so only a seventh of its standard counts yet
+    assert.equal(standardCumulative, 1.45);
+  });
+
+  it("reports first-week mortality once the first week is over", () => {
+    assert.equal(analyze(6).firstWeekPercent, null);
+    assert.equal(analyze(7).firstWeekPercent, 1);
+    assert.equal(analyze(14).firstWeekPercent, 1);
+  });
+
+  it("compares the last seven days with the seven before", () => {
+    assert.equal(analyze(6).weekOverWeek, null);
+    const analysis = analyze(14);
+    assert.equal(analysis.lastWeekPercent, 0.35);
+    assert.equal(analysis.weekOverWeek, -0.65);
+  });
+
+  it("orders the reasons largest first with a running share", () => {
+    const { reasons } = analyze(14);
+    assert.deepEqual(reasons.map(r => [r.reason, r.dead, r.culled, r.share, r.cumulativeShare]), [
+      ["Sudden death syndrome", 80, 0, 59.3, 59.3],
+      ["Leg problems", 0, 40, 29.6, 88.9],
+      ["Unknown", 10, 0, 7.4, 96.3],
+      ["Runts", 0, 5, 3.7, 100],
+    ]);
+  });
+});
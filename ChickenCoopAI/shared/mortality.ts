@@ -0,0 +1,217 @@
+import { addDays, getFlockAge, getLocalDate } from "./time";
+import type { BreedType } from "./breeds";
+import { round } from "./math";
+
+// Typical weekly losses as % of birds placed, week 1 first. Weeks past the end
+// of a list hold at its last value (layers keep ~0.1%/week once in lay).
+export const WEEKLY_MORTALITY_STANDARD: Record<BreedType, number[]> = {
+  broiler: [1.0, 0.4, 0.35, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9],
+  layer: [1.0, 0.4, 0.25, 0.2, 0.2, 0.15, 0.15, 0.15, 0.1],
+};
+
+export const UNKNOWN_CAUSE = "Unknown";
+
+// Birds found dead are natural mortality; culls were removed by the farmer and
+// are reported apart so livability shows how much of the loss was a decision.
+export const mortalityTypes = ["dead", "culled"] as const;
+export type MortalityType = typeof mortalityTypes[number];
+
+export const MORTALITY_TYPE_LABELS: Record<MortalityType, string> = {
+  dead: "Found dead",
+  culled: "Culled",
+};
+
+// Reason codes a loss is recorded under. Built-in codes are stable slugs;
+// farm-defined reasons use their record id as the code.
+export interface MortalityReason {
+  code: string;
+  label: string;
+  type: MortalityType;
+  builtIn: boolean;
+}
+
+const builtIn = (code: string, label: string, type: MortalityType): MortalityReason =>
+  ({ code, label, type, builtIn: true });
+
+export const BUILT_IN_MORTALITY_REASONS: MortalityReason[] = [
+  builtIn("sds", "Sudden death syndrome", "dead"),
+  builtIn("ascites", "Ascites", "dead"),
+  builtIn("yolk-sac", "Yolk sac infection", "dead"),
+  builtIn("respiratory", "Respiratory disease", "dead"),
+  builtIn("enteric", "Enteric disease", "dead"),
+  builtIn("heat-stress", "Heat stress", "dead"),
+  builtIn("chilling", "Chilling", "dead"),
+  builtIn("smothering", "Smothering", "dead"),
+  builtIn("leg-problems", "Leg problems", "culled"),
+  builtIn("runts", "Runts", "culled"),
+  builtIn("injury", "Injury", "culled"),
+  builtIn("sick", "Sick or moribund", "culled"),
+];
+
+// Records without a reason code predate the catalogue and keep their free-text cause
+export function getMortalityReasonLabel(
+  record: { reasonCode: string | null; cause: string | null },
+  reasons: MortalityReason[],
+): string {
+  const reason = record.reasonCode ? reasons.find(r => r.code === record.reasonCode) : undefined;
+  return reason?.label ?? record.cause ?? UNKNOWN_CAUSE;
+}
+
+export interface MortalityDay {
+  date: string; // "YYYY-MM-DD" farm day
+  age: number;
+  deaths: number;
+  percent: number; // of birds placed
+  cumulativePercent: number;
+}
+
+export interface MortalityWeek {
+  week: number; // 1 = days 0-6
+  deaths: number;
+  percent: number;
+  standard: number;
+  cumulativePercent: number;
+  standardCumulative: number;
+}
+
+// One bar of the Pareto chart, largest reason first
+export interface MortalityReasonStats {
+  reason: string;
+  dead: number;
+  culled: number;
+  deaths: number; // dead and culled
+  percent: number; // of birds placed
+  share: number; // % of all losses
+  cumulativeShare: number;
+}
+
+export interface MortalityAnalysis {
+  placed: number;
+  losses: number; // dead and culled
+  dead: number;
+  culled: number;
+  cumulativePercent: number;
+  cullPercent: number; // culls alone, of birds placed
+  standardCumulative: number; // at the flock's current age
+  firstWeekPercent: number | null; // null until day 7
+  lastWeekPercent: number; // trailing seven days
+  weekOverWeek: number | null; // percentage points against the seven days before
+  days: MortalityDay[];
+  weeks: MortalityWeek[];
+  reasons: MortalityReasonStats[];
+}
+
+export function getWeeklyMortalityStandard(type: BreedType, week: number): number {
+  const standard = WEEKLY_MORTALITY_STANDARD[type];
+  return standard[Math.min(week, standard.length) - 1];
+}
+
+export function analyzeMortality(input: {
+  records: {
+    deathCount: number;
+    type: MortalityType;
+    reasonCode: string | null;
+    cause: string | null;
+    date: Date | string | null;
+  }[];
+  reasons: MortalityReason[];
+  placed: number;
+  batchDate: Date | string;
+  type: BreedType;
+  timeZone?: string;
+  dayStart?: number;
+  now?: Date;
+}): MortalityAnalysis {
+  const { records, reasons, placed, batchDate, type, timeZone = "UTC", dayStart = 0, now = new Date() } = input;
+  const percentOf = (deaths: number) => (placed > 0 ? (deaths / placed) * 100 : 0);
+  const currentAge = getFlockAge(batchDate, timeZone, now, dayStart);
+
+  const deathsByAge = new Array<number>(currentAge + 1).fill(0);
+  const lossesByReason = new Map<string, { dead: number; culled: number }>();
+  for (const record of records) {
+    const age = Math.min(currentAge, getFlockAge(batchDate, timeZone, record.date ?? now, dayStart));
+    deathsByAge[age] += record.deathCount;
+    const reason = getMortalityReasonLabel(record, reasons);
+    const counts = lossesByReason.get(reason) ?? { dead: 0, culled: 0 };
+    counts[record.type] += record.deathCount;
+    lossesByReason.set(reason, counts);
+  }
+
+  const placedOn = getLocalDate(batchDate, timeZone, dayStart);
+  let cumulative = 0;
+  const days = deathsByAge.map((deaths, age) => {
+    cumulative += deaths;
+    return {
+      date: addDays(placedOn, age),
+      age,
+      deaths,
+      percent: round(percentOf(deaths), 2),
+      cumulativePercent: round(percentOf(cumulative), 2),
+    };
+  });
+
+  const weeks: MortalityWeek[] = [];
+  let weekCumulative = 0;
+  let standardCumulative = 0;
+  for (let start = 0; start <= currentAge; start += 7) {
+    const week = start / 7 + 1;
+    const deaths = deathsByAge.slice(start, start + 7).reduce((sum, d) => sum + d, 0);
+    const standard = getWeeklyMortalityStandard(type, week);
+    weekCumulative += deaths;
+    standardCumulative += standard;
+    weeks.push({
+      week,
+      deaths,
+      percent: round(percentOf(deaths), 2),
+      standard,
+      cumulativePercent: round(percentOf(weekCumulative), 2),
+      standardCumulative: round(standardCumulative, 2),
+    });
+  }
+
+  const losses = cumulative;
+  const culled = records
+    .filter(r => r.type === "culled")
+    .reduce((sum, r) => sum + r.deathCount, 0);
+  let reasonCumulative = 0;
+  const reasonStats = Array.from(lossesByReason, ([reason, counts]) => ({ reason, ...counts, deaths: counts.dead + counts.culled }))
+    .filter(r => r.deaths > 0)
+    .sort((a, b) => b.deaths - a.deaths)
+    .map((stats) => {
+      reasonCumulative += stats.deaths;
+      return {
+        ...stats,
+        percent: round(percentOf(stats.deaths), 2),
+        share: round((stats.deaths / losses) * 100, 1),
+        cumulativeShare: round((reasonCumulative / losses) * 100, 1),
+      };
+    });
+
+  const sumAges = (from: number, to: number) =>
+    deathsByAge.slice(Math.max(0, from), Math.max(0, to + 1)).reduce((sum, d) => sum + d, 0);
+  const lastWeek = percentOf(sumAges(currentAge - 6, currentAge));
+  const previousWeek = percentOf(sumAges(currentAge - 13, currentAge - 7));
+
+  // The current week only counts towards the standard for the days already lived
+  const currentWeek = weeks[weeks.length - 1];
+  const daysIntoWeek = (currentAge % 7) + 1;
+
+  return {
+    placed,
+    losses,
+    dead: losses - culled,
+    culled,
+    cumulativePercent: round(percentOf(losses), 2),
+    cullPercent: round(percentOf(culled), 2),
+    standardCumulative: round(
+      currentWeek.standardCumulative - currentWeek.standard * (1 - daysIntoWeek / 7),
+      2,
+    ),
+    firstWeekPercent: currentAge >= 7 ? weeks[0].percent : null,
+    lastWeekPercent: round(lastWeek, 2),
+    weekOverWeek: currentAge >= 7 ? round(lastWeek - previousWeek, 2) : null,
+    days,
+    weeks,
+    reasons: reasonStats,
+  };
+}
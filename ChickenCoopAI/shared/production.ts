@@ -0,0 +1,157 @@
+import type { MortalityType } from "./mortality";
+import { round } from "./math";
+
+export interface CloseOutInput {
+  placed: number; // chicks placed
+  delivered: number; // birds delivered to the plant
+  totalLiveWeight: number; // kg delivered
+  condemnations: number; // birds rejected at slaughter
+  totalFeed: number; // kg fed over the whole cycle
+  ageAtHarvest: number; // days
+  dead: number; // birds found dead over the cycle
+  culled: number; // birds culled over the cycle
+}
+
+export interface CloseOutResults {
+  livability: number; // % of placed birds delivered
+  mortalityRate: number; // % of placed birds found dead
+  cullRate: number; // % of placed birds culled
+  averageWeight: number; // kg per delivered bird
+  fcr: number; // kg feed per kg live weight
+  averageDailyGain: number; // g per bird per day
+  condemnationRate: number; // % of delivered birds
+  epef: number; // European Production Efficiency Factor
+}
+
+// End-of-cycle performance from slaughter results and recorded feed.
+// EPEF = livability% × average weight (kg) / (age × FCR) × 100
+export function calculateCloseOutResults(input: CloseOutInput): CloseOutResults {
+  const { placed, delivered, totalLiveWeight, condemnations, totalFeed, ageAtHarvest, dead, culled } = input;
+
+  const livability = placed > 0 ? (delivered / placed) * 100 : 0;
+  const mortalityRate = placed > 0 ? (dead / placed) * 100 : 0;
+  const cullRate = placed > 0 ? (culled / placed) * 100 : 0;
+  const averageWeight = delivered > 0 ? totalLiveWeight / delivered : 0;
+  const fcr = totalLiveWeight > 0 ? totalFeed / totalLiveWeight : 0;
+  const averageDailyGain = ageAtHarvest > 0 ? (averageWeight * 1000) / ageAtHarvest : 0;
+  const condemnationRate = delivered > 0 ? (condemnations / delivered) * 100 : 0;
+  const epef = ageAtHarvest > 0 && fcr > 0
+    ? (livability * averageWeight) / (ageAtHarvest * fcr) * 100
+    : 0;
+
+  return {
+    livability: round(livability, 2),
+    mortalityRate: round(mortalityRate, 2),
+    cullRate: round(cullRate, 2),
+    averageWeight: round(averageWeight, 3),
+    fcr: round(fcr, 3),
+    averageDailyGain: round(averageDailyGain, 1),
+    condemnationRate: round(condemnationRate, 2),
+    epef: Math.round(epef),
+  };
+}
+
+export interface FlockSummary {
+  placed: number;
+  dead: number;
+  culled: number;
+  sold: number;
+  remaining: number;
+}
+
+// Head-count breakdown of a flock. Sold (thinned) birds reduce the live count
+// but are kept apart from losses so mortality rates stay meaningful.
+export function calculateFlockSummary(
+  flock: { initialChickCount: number; chickCount: number },
+  mortality: { deathCount: number; type: MortalityType }[],
+  sales: { headCount: number }[],
+): FlockSummary {
+  const countOf = (type: MortalityType) => mortality
+    .filter(r => r.type === type)
+    .reduce((sum, r) => sum + r.deathCount, 0);
+  const dead = countOf('dead');
+  const culled = countOf('culled');
+
+  return {
+    placed: flock.initialChickCount,
+    dead,
+    culled,
+    sold: sales.reduce((sum, s) => sum + s.headCount, 0),
+    remaining: flock.chickCount,
+  };
+}
+
+export interface PerformanceInput {
+  age: number; // days
+  birds: number; // alive now
+  placed: number;
+  averageWeight: number; // g, latest weighing or the flock's stored weight
+  weighedAge: number; // age the average weight was measured at
+  feed: { amount: number; age: number }[]; // kg
+  mortality: { deathCount: number; age: number }[];
+  sales: { headCount: number; totalWeight: number; age: number }[]; // kg
+  standardWeightAt: (age: number) => number; // g, from the breed curve
+  standardFcrAt: (age: number) => number;
+}
+
+export interface FlockPerformance {
+  averageWeight: number; // g, carried forward to today
+  liveBiomass: number; // kg
+  deadBiomass: number; // kg, estimated at the age each bird died
+  soldWeight: number; // kg
+  totalFeed: number; // kg
+  feedPerBird: number; // kg per bird placed
+  cumulativeFcr: number | null;
+  weeklyFcr: number | null; // last seven days
+  targetFcr: number;
+  targetWeeklyFcr: number | null;
+}
+
+// Real FCR from recorded feed over the weight produced. Birds that died or were
+// sold still count as produced weight; chick weight at placement does not.
+// Weights between weighings follow the breed curve, scaled to the last weighing.
+export function calculateFlockPerformance(input: PerformanceInput): FlockPerformance {
+  const { age, birds, placed, feed, mortality, sales, standardWeightAt, standardFcrAt } = input;
+  const ratio = input.averageWeight / (standardWeightAt(input.weighedAge) || input.averageWeight || 1);
+  const weightAt = (day: number) => standardWeightAt(day) * ratio; // g
+  const weekStart = Math.max(0, age - 7);
+  // Records on the start day belong to the previous period, except at placement
+  const after = (fromAge: number) => (day: number) => fromAge === 0 || day > fromAge;
+
+  const produced = (fromAge: number) => {
+    const deaths = mortality.filter(r => after(fromAge)(r.age));
+    const sold = sales.filter(s => after(fromAge)(s.age));
+    const deadBiomass = deaths.reduce((sum, r) => sum + r.deathCount * weightAt(r.age), 0) / 1000;
+    const soldWeight = sold.reduce((sum, s) => sum + s.totalWeight, 0);
+    // Birds alive at the start of the period and their weight then
+    const aliveThen = birds
+      + deaths.reduce((sum, r) => sum + r.deathCount, 0)
+      + sold.reduce((sum, s) => sum + s.headCount, 0);
+    const startBiomass = fromAge === 0
+      ? placed * standardWeightAt(0) / 1000
+      : aliveThen * weightAt(fromAge) / 1000;
+    return { deadBiomass, soldWeight, gain: (birds * weightAt(age)) / 1000 + deadBiomass + soldWeight - startBiomass };
+  };
+
+  const cycle = produced(0);
+  const week = produced(weekStart);
+  const totalFeed = feed.reduce((sum, r) => sum + r.amount, 0);
+  const weekFeed = feed.filter(r => after(weekStart)(r.age)).reduce((sum, r) => sum + r.amount, 0);
+
+  // Breed feed per bird is FCR × weight, so the weekly target follows from two points on the curve
+  const curveFeed = (day: number) => standardFcrAt(day) * standardWeightAt(day);
+  const curveGain = standardWeightAt(age) - standardWeightAt(weekStart);
+
+  return {
+    averageWeight: Math.round(weightAt(age)),
+    liveBiomass: round((birds * weightAt(age)) / 1000, 1),
+    deadBiomass: round(cycle.deadBiomass, 1),
+    soldWeight: round(cycle.soldWeight, 1),
+    totalFeed: round(totalFeed, 1),
+    feedPerBird: placed > 0 ? round(totalFeed / placed, 3) : 0,
+    cumulativeFcr: totalFeed > 0 && cycle.gain > 0 ? round(totalFeed / cycle.gain, 3) : null,
+    weeklyFcr: weekFeed > 0 && week.gain > 0 ? round(weekFeed / week.gain, 3) : null,
+    targetFcr: standardFcrAt(age),
+    targetWeeklyFcr: age >= 7 && curveGain > 0 ? round((curveFeed(age) - curveFeed(weekStart)) / curveGain, 3) : null,
+  };
+}
@@ -2,6 +2,22 @@ import { sql } from "drizzle-orm";
 import { pgTable, text, varchar, integer, real, boolean, timestamp, json } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimeZone } from "./time";
+import type { WeighingStats } from "./weighing";
+import type { MeterEvent } from "./water";
+import type { AlertSeverity, AnomalySignal } from "./anomalies";
+import { feedProgramSchema, type FeedPhase, type FeedProgramStatus } from "./feed-program";
+import { mortalityTypes, type MortalityType } from "./mortality";
+import { treatmentKinds, treatmentRoutes, type TreatmentKind, type TreatmentRoute, type TreatmentStatus } from "./health";
+import {
+  breedCurveSchema,
+  breedTypes,
+  layingCurveSchema,
+  DEFAULT_BREED_ID,
+  type BreedCurvePoint,
+  type BreedType,
+  type LayingCurvePoint,
+} from "./breeds";
 
 export const farms = pgTable("farms", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -9,6 +25,10 @@ export const farms = pgTable("farms", {
   length: real("length").notNull(), // meters
   width: real("width").notNull(), // meters
   height: real("height").notNull(), // meters
+  timezone: text("timezone").notNull().default("UTC"), // IANA name, e.g. "Africa/Algiers"
+  dayStart: integer("day_start").notNull().default(0), // farm day start, minutes after local midnight
+  wallUValue: real("wall_u_value").notNull().default(0.6), // W/m²·K
+  roofUValue: real("roof_u_value").notNull().default(0.4), // W/m²·K
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -18,9 +38,28 @@ export const flocks = pgTable("flocks", {
   name: text("name").notNull(),
   chickCount: integer("chick_count").notNull(),
   initialChickCount: integer("initial_chick_count").notNull(),
-  currentAge: integer("current_age").notNull(), // days
   averageWeight: real("average_weight").notNull(), // grams
   batchDate: timestamp("batch_date").notNull(),
+  type: text("type").$type<BreedType>().notNull().default("broiler"), // 'broiler' | 'layer'
+  breedId: varchar("breed_id").notNull().default(DEFAULT_BREED_ID), // built-in id or a breed_profiles row
+  feedProgram: json("feed_program").$type<FeedPhase[]>(), // null: DEFAULT_FEED_PROGRAM
+  status: text("status").notNull().default("active"), // 'active' | 'closed'
+  // Close-out (harvest) results, set once when the cycle ends
+  harvestDate: timestamp("harvest_date"),
+  birdsDelivered: integer("birds_delivered"),
+  totalLiveWeight: real("total_live_weight"), // kg delivered to the plant
+  condemnations: integer("condemnations"), // birds rejected at slaughter
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Custom performance curves imported by a farm; built-in breeds live in shared/breeds.ts
+export const breedProfiles = pgTable("breed_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  farmId: varchar("farm_id").references(() => farms.id),
+  name: text("name").notNull(),
+  type: text("type").$type<BreedType>().notNull(),
+  curve: json("curve").$type<BreedCurvePoint[]>().notNull(),
+  layingCurve: json("laying_curve").$type<LayingCurvePoint[]>(), // layers only
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -48,14 +87,55 @@ export const environmentalReadings = pgTable("environmental_readings", {
   outsideHumidity: real("outside_humidity"),
   windSpeed: real("wind_speed"),
   pressure: real("pressure"),
+  co2: real("co2"), // ppm
+  ammonia: real("ammonia"), // ppm NH₃
+  pm25: real("pm25"), // µg/m³
+  pm10: real("pm10"), // µg/m³
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Feed bins on a farm. Stock is derived from deliveries minus the feed records
+// drawn from each silo.
+export const feedSilos = pgTable("feed_silos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  farmId: varchar("farm_id").references(() => farms.id),
+  name: text("name").notNull(),
+  capacity: real("capacity").notNull(), // kg
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const feedDeliveries = pgTable("feed_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  siloId: varchar("silo_id").references(() => feedSilos.id),
+  amount: real("amount").notNull(), // kg
+  feedType: text("feed_type").notNull(), // e.g. 'starter', 'grower'
+  supplier: text("supplier"),
+  invoicePrice: real("invoice_price"), // total invoiced for the delivery
+  date: timestamp("date").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Cumulative drinker-line meter values. Consumption since the previous reading
+// is booked as water records linked back to the reading.
+export const waterMeterReadings = pgTable("water_meter_readings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flockId: varchar("flock_id").references(() => flocks.id),
+  reading: real("reading").notNull(), // L shown on the meter
+  consumption: real("consumption").notNull().default(0), // L since the previous reading
+  event: text("event").$type<MeterEvent>().notNull().default("baseline"),
+  missingDays: integer("missing_days").notNull().default(0), // days skipped since the previous reading
+  date: timestamp("date").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const feedWaterRecords = pgTable("feed_water_records", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   flockId: varchar("flock_id").references(() => flocks.id),
   type: text("type").notNull(), // 'feed' | 'water'
   amount: real("amount").notNull(), // kg for feed, L for water
+  siloId: varchar("silo_id").references(() => feedSilos.id), // feed only: the bin it was drawn from
+  diet: text("diet"), // feed only: the program phase it was fed in
+  meterReadingId: varchar("meter_reading_id").references(() => waterMeterReadings.id), // water derived from a meter
   date: timestamp("date").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -64,7 +144,101 @@ export const mortalityRecords = pgTable("mortality_records", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   flockId: varchar("flock_id").references(() => flocks.id),
   deathCount: integer("death_count").notNull(),
-  cause: text("cause"), // optional cause of death
+  type: text("type").$type<MortalityType>().notNull().default("dead"),
+  reasonCode: text("reason_code"), // built-in reason code or a farm reason id
+  cause: text("cause"), // free-text cause from before the reason catalogue
+  necropsyFindings: text("necropsy_findings"),
+  vetReference: text("vet_reference"), // lab or vet report number
+  date: timestamp("date").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Farm-defined mortality reasons, offered alongside the built-in catalogue
+export const mortalityReasons = pgTable("mortality_reasons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  farmId: varchar("farm_id").references(() => farms.id),
+  label: text("label").notNull(),
+  type: text("type").$type<MortalityType>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit trail of edits and deletions of feed, water and mortality records.
+// previous is the record as it was before the correction.
+export const recordCorrections = pgTable("record_corrections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flockId: varchar("flock_id").references(() => flocks.id),
+  recordType: text("record_type").$type<CorrectedRecordType>().notNull(),
+  recordId: varchar("record_id").notNull(), // no reference: deleted records are gone
+  action: text("action").$type<"update" | "delete">().notNull(),
+  previous: json("previous").$type<Record<string, unknown>>().notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Early-warning flags from the anomaly engine, one per flock and farm day
+export const flockAlerts = pgTable("flock_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flockId: varchar("flock_id").references(() => flocks.id),
+  date: text("date").notNull(), // "YYYY-MM-DD" in farm time
+  severity: text("severity").$type<AlertSeverity>().notNull(),
+  signals: json("signals").$type<AnomalySignal[]>().notNull(),
+  dismissedAt: timestamp("dismissed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Daily egg collection for layer flocks. Cracked, dirty and floor eggs are
+// counted within totalEggs.
+export const eggProductionRecords = pgTable("egg_production_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flockId: varchar("flock_id").references(() => flocks.id),
+  totalEggs: integer("total_eggs").notNull(),
+  crackedEggs: integer("cracked_eggs").notNull().default(0),
+  dirtyEggs: integer("dirty_eggs").notNull().default(0),
+  floorEggs: integer("floor_eggs").notNull().default(0),
+  eggWeight: real("egg_weight"), // average g per egg
+  henCount: integer("hen_count").notNull(), // hens alive when the collection was recorded
+  date: timestamp("date").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Vaccination and medication program of a flock. Entries are planned for an
+// age and marked administered when given; medication withdrawal periods run
+// from the administration date.
+export const healthTreatments = pgTable("health_treatments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flockId: varchar("flock_id").references(() => flocks.id),
+  kind: text("kind").$type<TreatmentKind>().notNull(),
+  product: text("product").notNull(),
+  route: text("route").$type<TreatmentRoute>().notNull(),
+  dose: text("dose").notNull(), // as written on the label, e.g. "1 dose/bird" or "0.5 ml/L"
+  plannedAge: integer("planned_age").notNull(), // days
+  withdrawalDays: integer("withdrawal_days").notNull().default(0),
+  administeredAt: timestamp("administered_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Live birds sold before final catch (thinning). Reduces the live count
+// without counting as mortality.
+export const birdSales = pgTable("bird_sales", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flockId: varchar("flock_id").references(() => flocks.id),
+  headCount: integer("head_count").notNull(),
+  totalWeight: real("total_weight").notNull(), // kg live weight
+  buyer: text("buyer"),
+  pricePerKg: real("price_per_kg"),
+  date: timestamp("date").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A weighing of sample birds on one day: either individual weights or a bulk
+// count and total (e.g. a crate on a platform scale).
+export const weighSessions = pgTable("weigh_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flockId: varchar("flock_id").references(() => flocks.id),
+  weights: json("weights").$type<number[]>(), // grams, one per bird
+  sampleCount: integer("sample_count").notNull(),
+  sampleTotal: real("sample_total").notNull(), // grams
   date: timestamp("date").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -87,6 +261,15 @@ export const insertFarmSchema = createInsertSchema(farms).pick({
   length: true,
   width: true,
   height: true,
+  timezone: true,
+  dayStart: true,
+  wallUValue: true,
+  roofUValue: true,
+}).extend({
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+  dayStart: z.number().int().min(0).max(24 * 60 - 1).optional(),
+  wallUValue: z.number().positive().optional(),
+  roofUValue: z.number().positive().optional(),
 });
 
 export const insertFlockSchema = createInsertSchema(flocks).pick({
@@ -94,19 +277,125 @@ export const insertFlockSchema = createInsertSchema(flocks).pick({
   name: true,
   chickCount: true,
   initialChickCount: true,
-  currentAge: true,
   averageWeight: true,
   batchDate: true,
+  breedId: true,
+}).extend({
+  batchDate: z.coerce.date(),
+  type: z.enum(breedTypes).optional(),
 });
 
+export const updateFlockSchema = insertFlockSchema.pick({
+  name: true,
+  breedId: true,
+}).extend({
+  feedProgram: feedProgramSchema.nullable(),
+}).partial();
+
+export const insertBreedProfileSchema = createInsertSchema(breedProfiles).pick({
+  farmId: true,
+  name: true,
+}).extend({
+  type: z.enum(breedTypes),
+  curve: breedCurveSchema,
+  layingCurve: layingCurveSchema.optional(),
+});
+
+export const insertHealthTreatmentSchema = createInsertSchema(healthTreatments).pick({
+  flockId: true,
+  kind: true,
+  product: true,
+  route: true,
+  dose: true,
+  plannedAge: true,
+  withdrawalDays: true,
+  notes: true,
+}).extend({
+  kind: z.enum(treatmentKinds),
+  product: z.string().min(1),
+  route: z.enum(treatmentRoutes),
+  dose: z.string().min(1),
+  plannedAge: z.number().int().min(0),
+  withdrawalDays: z.number().int().min(0).optional(),
+});
+
+export const administerTreatmentSchema = z.object({
+  administeredAt: z.coerce.date().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const insertEggProductionSchema = createInsertSchema(eggProductionRecords).pick({
+  flockId: true,
+  totalEggs: true,
+  crackedEggs: true,
+  dirtyEggs: true,
+  floorEggs: true,
+  eggWeight: true,
+}).extend({
+  totalEggs: z.number().int().min(0),
+  crackedEggs: z.number().int().min(0).optional(),
+  dirtyEggs: z.number().int().min(0).optional(),
+  floorEggs: z.number().int().min(0).optional(),
+  eggWeight: z.number().positive().nullable().optional(),
+  date: z.string().optional(),
+}).refine(
+  data => [data.crackedEggs, data.dirtyEggs, data.floorEggs].every(n => (n ?? 0) <= data.totalEggs),
+  "Cracked, dirty and floor eggs are counted within the total",
+);
+
 export const insertMortalitySchema = createInsertSchema(mortalityRecords).pick({
   flockId: true,
   deathCount: true,
-  cause: true,
+  reasonCode: true,
+  necropsyFindings: true,
+  vetReference: true,
+}).extend({
+  type: z.enum(mortalityTypes).default("dead"),
+  date: z.string().optional(),
+});
+
+export const updateMortalitySchema = insertMortalitySchema.pick({
+  reasonCode: true,
+  necropsyFindings: true,
+  vetReference: true,
+  date: true,
+}).extend({
+  type: z.enum(mortalityTypes),
+  deathCount: z.number().int().positive(),
+  reason: z.string(),
+}).partial();
+
+export const insertMortalityReasonSchema = createInsertSchema(mortalityReasons).pick({
+  farmId: true,
 }).extend({
+  label: z.string().trim().min(1),
+  type: z.enum(mortalityTypes),
+});
+
+export const insertBirdSaleSchema = createInsertSchema(birdSales).pick({
+  flockId: true,
+  headCount: true,
+  totalWeight: true,
+  buyer: true,
+  pricePerKg: true,
+}).extend({
+  headCount: z.number().int().min(1),
+  totalWeight: z.number().positive(),
   date: z.string().optional(),
 });
 
+export const insertWeighSessionSchema = createInsertSchema(weighSessions).pick({
+  flockId: true,
+}).extend({
+  weights: z.array(z.number().positive()).min(1).optional(),
+  sampleCount: z.number().int().min(1).optional(),
+  sampleTotal: z.number().positive().optional(),
+  date: z.string().optional(),
+}).refine(
+  data => data.weights || (data.sampleCount && data.sampleTotal),
+  "Provide individual weights or a sample count and total",
+);
+
 export const insertEquipmentSchema = createInsertSchema(equipment).pick({
   farmId: true,
   type: true,
@@ -120,10 +409,53 @@ export const insertFeedWaterSchema = createInsertSchema(feedWaterRecords).pick({
   flockId: true,
   type: true,
   amount: true,
+  siloId: true,
+  diet: true,
 }).extend({
   date: z.string().optional(),
 });
 
+export const updateFeedWaterSchema = z.object({
+  amount: z.number().positive(),
+  date: z.string(),
+  reason: z.string(),
+}).partial();
+
+// Deletions carry only the reason for the audit trail
+export const deleteRecordSchema = z.object({
+  reason: z.string().optional(),
+});
+
+export const insertFeedSiloSchema = createInsertSchema(feedSilos).pick({
+  farmId: true,
+  name: true,
+  capacity: true,
+}).extend({
+  name: z.string().min(1),
+  capacity: z.number().positive(),
+});
+
+export const insertFeedDeliverySchema = createInsertSchema(feedDeliveries).pick({
+  siloId: true,
+  amount: true,
+  feedType: true,
+  supplier: true,
+  invoicePrice: true,
+}).extend({
+  amount: z.number().positive(),
+  feedType: z.string().min(1),
+  invoicePrice: z.number().min(0).nullable().optional(),
+  date: z.string().optional(),
+});
+
+export const insertWaterMeterReadingSchema = createInsertSchema(waterMeterReadings).pick({
+  flockId: true,
+  reading: true,
+}).extend({
+  reading: z.number().min(0),
+  date: z.string().optional(),
+});
+
 export const insertEnvironmentalReadingSchema = createInsertSchema(environmentalReadings).pick({
   farmId: true,
   insideTemp: true,
@@ -132,6 +464,22 @@ export const insertEnvironmentalReadingSchema = createInsertSchema(environmental
   outsideHumidity: true,
   windSpeed: true,
   pressure: true,
+  co2: true,
+  ammonia: true,
+  pm25: true,
+  pm10: true,
+}).extend({
+  co2: z.number().min(0).nullish(),
+  ammonia: z.number().min(0).nullish(),
+  pm25: z.number().min(0).nullish(),
+  pm10: z.number().min(0).nullish(),
+});
+
+export const closeOutFlockSchema = z.object({
+  harvestDate: z.coerce.date(),
+  birdsDelivered: z.number().int().min(1),
+  totalLiveWeight: z.number().positive(),
+  condemnations: z.number().int().min(0).default(0),
 });
 
 export const updateEquipmentSchema = z.object({
@@ -144,14 +492,58 @@ export type InsertFarm = z.infer<typeof insertFarmSchema>;
 export type InsertFlock = z.infer<typeof insertFlockSchema>;
 export type InsertEquipment = z.infer<typeof insertEquipmentSchema>;
 export type InsertFeedWater = z.infer<typeof insertFeedWaterSchema>;
+export type InsertFeedSilo = z.infer<typeof insertFeedSiloSchema>;
+export type InsertWaterMeterReading = z.infer<typeof insertWaterMeterReadingSchema>;
+export type InsertFeedDelivery = z.infer<typeof insertFeedDeliverySchema>;
 export type InsertEnvironmentalReading = z.infer<typeof insertEnvironmentalReadingSchema>;
 export type InsertMortality = z.infer<typeof insertMortalitySchema>;
+export type UpdateMortality = z.infer<typeof updateMortalitySchema>;
+export type InsertMortalityReason = z.infer<typeof insertMortalityReasonSchema>;
+export type UpdateFeedWater = z.infer<typeof updateFeedWaterSchema>;
+export type InsertBirdSale = z.infer<typeof insertBirdSaleSchema>;
+export type InsertWeighSession = z.infer<typeof insertWeighSessionSchema>;
 export type UpdateEquipment = z.infer<typeof updateEquipmentSchema>;
+export type CloseOutFlock = z.infer<typeof closeOutFlockSchema>;
+export type UpdateFlock = z.infer<typeof updateFlockSchema>;
+export type InsertBreedProfile = z.infer<typeof insertBreedProfileSchema>;
+export type InsertEggProduction = z.infer<typeof insertEggProductionSchema>;
+export type InsertHealthTreatment = z.infer<typeof insertHealthTreatmentSchema>;
+export type AdministerTreatment = z.infer<typeof administerTreatmentSchema>;
 
 export type Farm = typeof farms.$inferSelect;
 export type Flock = typeof flocks.$inferSelect;
+// Flocks as returned by the API: age in days is derived from batchDate in the
+// farm's timezone and day start on every read instead of being stored.
+export type FlockWithAge = Flock & { currentAge: number };
+// Feed program as returned by the API, with the forecast changeover day in farm time
+export type FlockFeedProgram = Omit<FeedProgramStatus, "nextChangeover"> & {
+  program: FeedPhase[];
+  nextChangeover: { diet: string; age: number; date: string } | null;
+};
+export type BreedProfileRecord = typeof breedProfiles.$inferSelect;
 export type Equipment = typeof equipment.$inferSelect;
 export type EnvironmentalReading = typeof environmentalReadings.$inferSelect;
 export type FeedWaterRecord = typeof feedWaterRecords.$inferSelect;
+export type FeedSilo = typeof feedSilos.$inferSelect;
+// Silos as returned by the API, with stock derived from deliveries and usage (kg)
+export type FeedSiloWithStock = FeedSilo & { delivered: number; used: number; stock: number };
+export type FeedDelivery = typeof feedDeliveries.$inferSelect;
+export type WaterMeterReading = typeof waterMeterReadings.$inferSelect;
 export type MortalityRecord = typeof mortalityRecords.$inferSelect;
+export type MortalityReasonRecord = typeof mortalityReasons.$inferSelect;
+export type CorrectedRecordType = "feed_water" | "mortality";
+export type RecordCorrection = typeof recordCorrections.$inferSelect;
+export type FlockAlert = typeof flockAlerts.$inferSelect;
+export type InsertFlockAlert = Pick<FlockAlert, "flockId" | "date" | "severity" | "signals">;
+export type BirdSale = typeof birdSales.$inferSelect;
+export type EggProductionRecord = typeof eggProductionRecords.$inferSelect;
+export type HealthTreatment = typeof healthTreatments.$inferSelect;
+// Treatments as returned by the API, with their status on the flock's current age
+export type HealthTreatmentWithStatus = HealthTreatment & {
+  status: TreatmentStatus;
+  withdrawalEnd: string | null; // first day birds may be slaughtered, "YYYY-MM-DD"
+};
+export type WeighSession = typeof weighSessions.$inferSelect;
+// Weigh sessions as returned by the API, with the flock age on the weighing day
+export type WeighSessionWithStats = WeighSession & { age: number; stats: WeighingStats };
 export type DailyChecklist = typeof dailyChecklists.$inferSelect;
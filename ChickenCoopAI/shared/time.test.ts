@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findBlockingWithdrawal, getTreatmentStatus, getWithdrawalEnd } from "./health";
+import { addDays, getFarmDayRange, getFlockAge, getLocalDate } from "./time";
+
+const AMSTERDAM = "Europe/Amsterdam"; // clocks go forward on 29 March 2026 and back on 25 October
+const HOUR_MS = 60 * 60 * 1000;
+
+const iso = (range: [Date, Date]) => range.map(date => date.toISOString());
+const hours = ([start, end]: [Date, Date]) => (end.getTime() - start.getTime()) / HOUR_MS;
+
+describe("getFarmDayRange", () => {
+  it("runs from local midnight to local midnight", () => {
+    assert.deepEqual(iso(getFarmDayRange("2026-06-10", AMSTERDAM)), ["2026-06-09T22:00:00.000Z", "2026-06-10T22:00:00.000Z"]);
+    assert.deepEqual(iso(getFarmDayRange("2026-06-10")), ["2026-06-10T00:00:00.000Z", "2026-06-11T00:00:00.000Z"]);
+  });
+
+  it("is an hour short on the day the clocks go forward", () => {
+    const range = getFarmDayRange("2026-03-29", AMSTERDAM);
+    assert.deepEqual(iso(range), ["2026-03-28T23:00:00.000Z", "2026-03-29T22:00:00.000Z"]);
+    assert.equal(hours(range), 23);
+  });
+
+  it("is an hour long on the day the clocks go back", () => {
+    const range = getFarmDayRange("2026-10-25", AMSTERDAM);
+    assert.deepEqual(iso(range), ["2026-10-24T22:00:00.000Z", "2026-10-25T23:00:00.000Z"]);
+    assert.equal(hours(range), 25);
+  });
+
+  it("starts at the farm's day start, across a clock change", () => {
+    const range = getFarmDayRange("2026-03-28", AMSTERDAM, 360);
+    assert.deepEqual(iso(range), ["2026-03-28T05:00:00.000Z", "2026-03-29T04:00:00.000Z"]);
+    assert.equal(hours(range), 23);
+  });
+
+  it("covers exactly the instants getLocalDate puts on that day", () => {
+    for (const [date, dayStart] of [["2026-03-29", 0], ["2026-10-25", 0], ["2026-10-24", 360], ["2026-10-25", 90]] as const) {
+      const [start, end] = getFarmDayRange(date, AMSTERDAM, dayStart);
+      assert.equal(getLocalDate(start, AMSTERDAM, dayStart), date);
+      assert.equal(getLocalDate(new Date(end.getTime() - 1), AMSTERDAM, dayStart), date);
+      assert.equal(getLocalDate(end, AMSTERDAM, dayStart), addDays(date, 1));
+    }
+  });
+});
+
+describe("getLocalDate", () => {
+  it("reads the date in the farm's timezone", () => {
+    assert.equal(getLocalDate("2026-06-10T22:30:00Z", AMSTERDAM), "2026-06-11");
+    assert.equal(getLocalDate("2026-06-10T22:30:00Z"), "2026-06-10");
+  });
+
+  it("puts the hours before a non-midnight day start on the previous day", () => {
+    // 05:59 and 06:00 local time in summer (UTC+2)
+    assert.equal(getLocalDate("2026-06-10T03:59:00Z", AMSTERDAM, 360), "2026-06-09");
+    assert.equal(getLocalDate("2026-06-10T04:00:00Z", AMSTERDAM, 360), "2026-06-10");
+  });
+
+  it("ages a flock at the day start rather than at midnight", () => {
+    const placed = "2026-06-01T10:00:00Z";
+    assert.equal(getFlockAge(placed, AMSTERDAM, "2026-06-11T03:59:00Z", 360), 9);
+    assert.equal(getFlockAge(placed, AMSTERDAM, "2026-06-11T04:00:00Z", 360), 10);
+  });
+});
+
+describe("withdrawal window", () => {
+  // Given at 05:00 local on 26 October, before the 06:00 day start, so it counts
+  // towards the 25th, the day the clocks went back
+  const treatment = { plannedAge: 20, withdrawalDays: 3, administeredAt: "2026-10-26T04:00:00Z", product: "Amoxicillin" };
+  const dayStart = 360;
+
+  it("ends on the farm day the dose belongs to plus the withdrawal days", () => {
+    assert.equal(getWithdrawalEnd(treatment, AMSTERDAM, dayStart), "2026-10-28");
+    assert.equal(getWithdrawalEnd(treatment, AMSTERDAM), "2026-10-29");
+  });
+
+  it("clears at the start of the farm day it ends on", () => {
+    const [endStart] = getFarmDayRange("2026-10-28", AMSTERDAM, dayStart);
+    const justBefore = new Date(endStart.getTime() - 60 * 1000);
+
+    assert.equal(findBlockingWithdrawal([treatment], justBefore, AMSTERDAM, dayStart)?.withdrawalEnd, "2026-10-28");
+    assert.equal(findBlockingWithdrawal([treatment], endStart, AMSTERDAM, dayStart), undefined);
+    assert.equal(getTreatmentStatus(treatment, 22, AMSTERDAM, justBefore, dayStart), "withdrawal");
+    assert.equal(getTreatmentStatus(treatment, 22, AMSTERDAM, endStart, dayStart), "given");
+  });
+});
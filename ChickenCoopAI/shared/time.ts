@@ -0,0 +1,117 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Farm date ("YYYY-MM-DD") of an instant as seen in the given timezone. A farm
+// day may begin after midnight: dayStart is that start in minutes after local
+// midnight (360 for a 06:00 day), and earlier hours belong to the previous day.
+export function getLocalDate(date: Date | string, timeZone = "UTC", dayStart = 0): string {
+  if (dayStart === 0) {
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(new Date(date));
+  }
+  const local = getLocalParts(new Date(date).getTime(), timeZone);
+  const calendarDate = new Date(Date.UTC(local.year, local.month - 1, local.day)).toISOString().slice(0, 10);
+  return local.hour * 60 + local.minute < dayStart ? addDays(calendarDate, -1) : calendarDate;
+}
+
+function getLocalParts(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+// Milliseconds the timezone's wall clock is ahead of UTC at the given instant
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const local = getLocalParts(instant, timeZone);
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return wall - (instant - (instant % 1000));
+}
+
+// Instant at which the wall clock in the timezone shows the given date and time.
+// The offset is taken again at the first guess so DST changes land correctly.
+function fromLocalTime(localDate: string, minutes: number, timeZone: string): Date {
+  const wall = Date.parse(localDate) + minutes * 60 * 1000;
+  const guess = wall - getTimeZoneOffset(wall, timeZone);
+  return new Date(wall - getTimeZoneOffset(guess, timeZone));
+}
+
+// Start (inclusive) and end (exclusive) instants of a farm day, for range queries
+export function getFarmDayRange(localDate: string, timeZone = "UTC", dayStart = 0): [Date, Date] {
+  return [
+    fromLocalTime(localDate, dayStart, timeZone),
+    fromLocalTime(addDays(localDate, 1), dayStart, timeZone),
+  ];
+}
+
+// "HH:MM" for a day start in minutes after midnight, and back
+export function formatDayStart(dayStart: number): string {
+  return `${String(Math.floor(dayStart / 60)).padStart(2, "0")}:${String(dayStart % 60).padStart(2, "0")}`;
+}
+
+export function parseDayStart(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+// Calendar date the given number of days after a "YYYY-MM-DD" date
+export function addDays(localDate: string, days: number): string {
+  return new Date(Date.parse(localDate) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Age in days of a flock placed on batchDate, as of the given instant (now by
+// default). Both dates are read as farm days in the farm's timezone, so the
+// age ticks over at the farm's day start rather than the server's midnight.
+export function getFlockAge(
+  batchDate: Date | string,
+  timeZone = "UTC",
+  on: Date | string = new Date(),
+  dayStart = 0,
+): number {
+  return Math.max(0, daysBetween(getLocalDate(batchDate, timeZone, dayStart), getLocalDate(on, timeZone, dayStart)));
+}
+
+// Calendar hour ("YYYY-MM-DDTHH:00") of an instant in the given timezone
+export function getLocalHour(date: Date | string, timeZone = "UTC"): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(date));
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part("year")}-${part("month")}-${part("day")}T${part("hour")}:00`;
+}
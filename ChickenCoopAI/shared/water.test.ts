@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeWaterIntake, deriveMeterConsumption, splitMeterConsumption } from "./water";
+
+const water = (date: string, amount: number, meterReadingId: string | null = null) =>
+  ({ type: "water", amount, date: `${date}T12:00:00Z`, meterReadingId });
+const feed = (date: string, amount: number) =>
+  ({ type: "feed", amount, date: `${date}T12:00:00Z` });
+
+describe("deriveMeterConsumption", () => {
+  it("takes the first reading as the baseline", () => {
+    assert.deepEqual(deriveMeterConsumption(null, 1234), { consumption: 0, event: "baseline" });
+  });
+
+  it("subtracts a reading that went up", () => {
+    assert.deepEqual(deriveMeterConsumption(1000, 1850.5), { consumption: 850.5, event: "normal" });
+  });
+
+  it("treats a drop from the top of the dial as a rollover", () => {
+    assert.deepEqual(deriveMeterConsumption(99850, 120), { consumption: 270, event: "rollover" });
+  });
+
+  it("treats any other drop as a reset", () => {
+    assert.deepEqual(deriveMeterConsumption(45000, 300), { consumption: 300, event: "reset" });
+  });
+});
+
+describe("splitMeterConsumption", () => {
+  it("shares a reading across the days it covers without losing water", () => {
+    for (const [consumption, days] of [[1000, 3], [0.5, 7], [1234.5, 4]]) {
+      const shares = splitMeterConsumption(consumption, days);
+      assert.equal(shares.length, days);
+      assert.ok(shares.every(share => share >= 0));
+      assert.equal(Math.round(shares.reduce((sum, share) => sum + share, 0) * 10) / 10, consumption);
+    }
+    assert.deepEqual(splitMeterConsumption(1000, 3), [333.3, 333.3, 333.4]);
+  });
+
+  it("books every day of a reading with nothing drunk", () => {
+    assert.deepEqual(splitMeterConsumption(0, 2), [0, 0]);
+  });
+});
+
+describe("analyzeWaterIntake", () => {
+  it("works out water per bird on the birds alive each day", () => {
+    const alive: Record<string, number> = { "2026-03-01": 10000, "2026-03-02": 8000 };
+    const { days } = analyzeWaterIntake(
+      [water("2026-03-01", 1000), water("2026-03-02", 1000)],
+      date => alive[date],
+    );
+    assert.deepEqual(days.map(day => day.waterPerBird), [100, 125]);
+  });
+
+  it("flags a sharp drop against the previous days", () => {
+    const analysis = analyzeWaterIntake([
+      water("2026-03-01", 1000), water("2026-03-02", 1000), water("2026-03-03", 1000), water("2026-03-04", 800),
+    ], 10000);
+    assert.equal(analysis.latest?.date, "2026-03-04");
+    assert.equal(analysis.dropPercent, 20);
+    assert.equal(analysis.sharpDrop, true);
+    assert.equal(analysis.noWater, false);
+  });
+
+  it("flags a day with no water logged as a dry line", () => {
+    const analysis = analyzeWaterIntake([
+      water("2026-03-01", 1000), water("2026-03-02", 1000), water("2026-03-03", 1000), feed("2026-03-04", 500),
+    ], 10000);
+    assert.equal(analysis.latest?.date, "2026-03-04");
+    assert.equal(analysis.latest?.water, 0);
+    assert.equal(analysis.latest?.waterPerBird, 0);
+    assert.equal(analysis.noWater, true);
+    assert.equal(analysis.sharpDrop, true);
+  });
+
+  it("keeps a day with nothing logged inside the series", () => {
+    const { days } = analyzeWaterIntake([water("2026-03-01", 1000), water("2026-03-03", 1000)], 10000);
+    assert.deepEqual(days.map(day => [day.date, day.water]), [["2026-03-01", 1000], ["2026-03-02", 0], ["2026-03-03", 1000]]);
+  });
+
+  it("marks days shared out from one meter reading as estimated", () => {
+    const { days } = analyzeWaterIntake([
+      water("2026-03-01", 1000, "r1"),
+      water("2026-03-02", 600, "r2"), water("2026-03-03", 600, "r2"),
+    ], 10000);
+    assert.deepEqual(days.map(day => day.estimated), [false, true, true]);
+  });
+
+  it("judges a shared-out reading against days measured apart from it", () => {
+    const analysis = analyzeWaterIntake([
+      water("2026-03-01", 1000, "r1"), water("2026-03-02", 1000, "r2"),
+      water("2026-03-03", 500, "r3"), water("2026-03-04", 500, "r3"),
+    ], 10000);
+    assert.equal(analysis.latest?.estimated, true);
+    assert.equal(analysis.dropPercent, 50);
+  });
+});
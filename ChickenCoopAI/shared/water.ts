@@ -0,0 +1,124 @@
+import { addDays, getLocalDate } from "./time";
+import { round } from "./math";
+
+// baseline: first reading of the flock; rollover: the meter wrapped past its
+// last digit; reset: the meter was replaced or zeroed
+export type MeterEvent = "baseline" | "normal" | "rollover" | "reset";
+
+export interface DailyIntake {
+  date: string; // "YYYY-MM-DD" in farm time
+  water: number; // L
+  feed: number; // kg
+  waterPerBird: number | null; // ml, on the birds alive that day
+  waterFeedRatio: number | null; // L of water per kg of feed
+  estimated: boolean; // water spread evenly from a meter reading that covered several days
+}
+
+export interface WaterIntakeAnalysis {
+  days: DailyIntake[]; // oldest first
+  latest: DailyIntake | null;
+  dropPercent: number | null; // latest day against the mean of the days before it
+  sharpDrop: boolean;
+  noWater: boolean; // nothing drunk on the latest day, as when a water line fails
+}
+
+// A drop in water intake of this size is usually the first sign of disease
+export const WATER_DROP_ALERT_PERCENT = 10;
+const DROP_BASELINE_DAYS = 3;
+
+// Mechanical meters wrap to zero after their last digit. A reading below the
+// previous one is a rollover when the previous value was within the top tenth
+// of its digit range (e.g. 99 850 -> 120), otherwise the meter was reset.
+export function deriveMeterConsumption(
+  previous: number | null,
+  current: number,
+): { consumption: number; event: MeterEvent } {
+  if (previous === null) return { consumption: 0, event: "baseline" };
+  if (current >= previous) return { consumption: round(current - previous, 1), event: "normal" };
+
+  const capacity = 10 ** Math.max(1, Math.ceil(Math.log10(previous + 1)));
+  if (capacity - previous <= capacity / 10) {
+    return { consumption: round(capacity - previous + current, 1), event: "rollover" };
+  }
+  return { consumption: round(current, 1), event: "reset" };
+}
+
+// A reading that covers several days is shared out evenly, oldest day first.
+// Shares are cut from the running total in tenths of a litre, so the rounding
+// never loses water and the days add up to the meter.
+export function splitMeterConsumption(consumption: number, days: number): number[] {
+  const tenths = Math.round(consumption * 10);
+  const upTo = (day: number) => Math.floor((tenths * day) / days);
+  return Array.from({ length: days }, (_, i) => (upTo(i + 1) - upTo(i)) / 10);
+}
+
+// Daily intake from the first water record onwards. Days inside the series
+// with nothing logged count as no water, so a failed line is not skipped over.
+// A meter reading that covers several days can only be spread evenly across
+// them: those days are marked estimated, and the latest day is judged against
+// days measured apart from it rather than against its own share of the reading.
+export function analyzeWaterIntake(
+  records: { type: string; amount: number; date: Date | string | null; meterReadingId?: string | null }[],
+  birds: number | ((date: string) => number), // alive on each farm day, or one count for all
+  timeZone = "UTC",
+  dayStart = 0,
+): WaterIntakeAnalysis {
+  const birdsOn = typeof birds === "number" ? () => birds : birds;
+  const byDay = new Map<string, { water: number; feed: number; readings: Set<string> }>();
+  const readingDays = new Map<string, Set<string>>();
+  for (const record of records) {
+    if (!record.date) continue;
+    const date = getLocalDate(record.date, timeZone, dayStart);
+    const day = byDay.get(date) ?? { water: 0, feed: 0, readings: new Set<string>() };
+    if (record.type === "water") {
+      day.water += record.amount;
+      if (record.meterReadingId) {
+        day.readings.add(record.meterReadingId);
+        readingDays.set(record.meterReadingId, (readingDays.get(record.meterReadingId) ?? new Set()).add(date));
+      }
+    }
+    if (record.type === "feed") day.feed += record.amount;
+    byDay.set(date, day);
+  }
+
+  const waterDates = Array.from(byDay).filter(([, day]) => day.water > 0).map(([date]) => date).sort();
+  const lastDate = Array.from(byDay.keys()).sort().pop();
+  if (waterDates.length > 0 && lastDate) {
+    for (let date = waterDates[0]; date < lastDate; date = addDays(date, 1)) {
+      if (!byDay.has(date)) byDay.set(date, { water: 0, feed: 0, readings: new Set() });
+    }
+  }
+
+  const days: DailyIntake[] = Array.from(byDay, ([date, { water, feed, readings }]) => {
+    const alive = birdsOn(date);
+    const tracked = waterDates.length > 0 && date >= waterDates[0];
+    return {
+      date,
+      water: round(water, 1),
+      feed: round(feed, 1),
+      waterPerBird: tracked && alive > 0 ? round((water / alive) * 1000, 0) : null,
+      waterFeedRatio: feed > 0 && water > 0 ? round(water / feed, 2) : null,
+      estimated: Array.from(readings).some(id => (readingDays.get(id)?.size ?? 0) > 1),
+    };
+  }).sort((a, b) => a.date.localeCompare(b.date));
+
+  const series = waterDates.length > 0 ? days.filter(day => day.date >= waterDates[0]) : [];
+  const latest = series[series.length - 1] ?? null;
+  const latestReadings = latest ? byDay.get(latest.date)!.readings : new Set<string>();
+  const baseline = series
+    .slice(0, -1)
+    .filter(day => !Array.from(byDay.get(day.date)!.readings).some(id => latestReadings.has(id)))
+    .slice(-DROP_BASELINE_DAYS);
+  const baselineMean = baseline.reduce((sum, day) => sum + day.water, 0) / (baseline.length || 1);
+  const dropPercent = latest && baseline.length > 0 && baselineMean > 0
+    ? round(((baselineMean - latest.water) / baselineMean) * 100, 1)
+    : null;
+
+  return {
+    days,
+    latest,
+    dropPercent,
+    sharpDrop: dropPercent !== null && dropPercent >= WATER_DROP_ALERT_PERCENT,
+    noWater: latest !== null && latest.water === 0,
+  };
+}
@@ -0,0 +1,44 @@
+import { round } from "./math";
+
+export interface WeighingStats {
+  count: number;
+  mean: number; // grams
+  // Spread figures need individual weights; null for bulk (count + total) samples
+  standardDeviation: number | null; // grams
+  cv: number | null; // coefficient of variation, %
+  uniformity: number | null; // % of birds within ±10% of the mean
+}
+
+export function calculateWeighingStats(session: {
+  weights: number[] | null;
+  sampleCount: number;
+  sampleTotal: number;
+}): WeighingStats {
+  const { weights, sampleCount, sampleTotal } = session;
+  const mean = sampleCount > 0 ? sampleTotal / sampleCount : 0;
+
+  if (!weights || weights.length < 2 || mean === 0) {
+    return { count: sampleCount, mean: Math.round(mean), standardDeviation: null, cv: null, uniformity: null };
+  }
+
+  const variance = weights.reduce((sum, w) => sum + (w - mean) ** 2, 0) / (weights.length - 1);
+  const standardDeviation = Math.sqrt(variance);
+  const withinBand = weights.filter(w => Math.abs(w - mean) <= mean * 0.1).length;
+
+  return {
+    count: weights.length,
+    mean: Math.round(mean),
+    standardDeviation: round(standardDeviation, 1),
+    cv: round((standardDeviation / mean) * 100, 1),
+    uniformity: round((withinBand / weights.length) * 100, 1),
+  };
+}
+
+// Accepts weights pasted from a scale export or spreadsheet: numbers separated
+// by commas, semicolons, whitespace or new lines. Anything else is ignored.
+export function parseWeights(input: string): number[] {
+  return input
+    .split(/[\s,;]+/)
+    .map(value => parseFloat(value))
+    .filter(value => Number.isFinite(value) && value > 0);
+}